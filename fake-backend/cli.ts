@@ -0,0 +1,117 @@
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { FaultInjector, FAULT_TYPES } from './faults';
+import { loadFixtures } from './fixtures';
+import { createFakeBackend } from './server';
+
+const USAGE = `Usage: npm run fake-backend -- [options]
+
+  --port <n>              Port to listen on (default 8000)
+  --host <host>           Interface to bind (default 127.0.0.1)
+  --prefix <path>         API path prefix (default /api/v1)
+  --fixtures <file>       Answer fixtures (default fake-backend/fixtures/policy.json)
+  --latency <ms>          Delay before every response (default 200)
+  --token-delay <ms>      Delay between streamed tokens (default 30)
+  --processing-time <ms>  Time uploads spend 'processing' (default 1500)
+  --token <token>         Require a bearer token and accept this one as an API key
+  --user <name:password>  Accept this login at /auth/login and require a token; repeatable
+  --token-ttl <seconds>   Lifetime of tokens issued by /auth/login (default 900)
+  --fault <type[:count]>  Fail /hackrx/run requests; repeatable.
+                          Types: ${FAULT_TYPES.join(', ')}, 401, 429, 500
+  --fault-rate <0-1>      Probability that each --fault applies (default 1)
+  --record <file>         Append every request to a JSON-lines file
+
+Admin API (no prefix):
+  GET|DELETE /__admin/requests    Read or clear recorded requests
+  GET|POST|DELETE /__admin/faults Inject faults: {"type", "route"?, "count"?, "probability"?}
+  GET|POST /__admin/settings      Read or change latencyMs, tokenDelayMs, processingMs, token, users, tokenTtlMs
+  POST /__admin/reset             Clear requests, faults, uploads and issued tokens`;
+
+const toNumber = (value: string, flag: string): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`${flag} must be a non-negative number, got "${value}"`);
+  }
+  return number;
+};
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8000' },
+      host: { type: 'string', default: '127.0.0.1' },
+      prefix: { type: 'string', default: '/api/v1' },
+      fixtures: { type: 'string', default: fileURLToPath(new URL('./fixtures/policy.json', import.meta.url)) },
+      latency: { type: 'string', default: '200' },
+      'token-delay': { type: 'string', default: '30' },
+      'processing-time': { type: 'string', default: '1500' },
+      token: { type: 'string' },
+      user: { type: 'string', multiple: true, default: [] },
+      'token-ttl': { type: 'string', default: '900' },
+      fault: { type: 'string', multiple: true, default: [] },
+      'fault-rate': { type: 'string', default: '1' },
+      record: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const faults = new FaultInjector();
+  const probability = toNumber(values['fault-rate'], '--fault-rate');
+  for (const fault of values.fault) {
+    const [type, count] = fault.split(':');
+    faults.add({ type, remaining: count ? toNumber(count, '--fault') : undefined, probability });
+  }
+
+  const users: Record<string, string> = {};
+  for (const user of values.user) {
+    const separator = user.indexOf(':');
+    if (separator < 1) {
+      throw new Error(`--user must look like name:password, got "${user}"`);
+    }
+    users[user.slice(0, separator)] = user.slice(separator + 1);
+  }
+
+  const prefix = `/${values.prefix.replace(/^\/+|\/+$/g, '')}`;
+  const server = createFakeBackend({
+    fixtures: await loadFixtures(values.fixtures),
+    prefix,
+    recordFile: values.record,
+    faults,
+    settings: {
+      latencyMs: toNumber(values.latency, '--latency'),
+      tokenDelayMs: toNumber(values['token-delay'], '--token-delay'),
+      processingMs: toNumber(values['processing-time'], '--processing-time'),
+      token: values.token,
+      users,
+      tokenTtlMs: toNumber(values['token-ttl'], '--token-ttl') * 1000,
+    },
+  });
+
+  const port = toNumber(values.port, '--port');
+  server.listen(port, values.host, () => {
+    console.log(`Fake backend listening on http://${values.host}:${port}${prefix}`);
+    console.log(`Point the app at it with VITE_API_BASE_URL=http://${values.host}:${port}${prefix}`);
+    if (faults.list().length > 0) {
+      console.log(`Injecting faults: ${faults.list().map(rule => rule.type).join(', ')}`);
+    }
+  });
+
+  const shutdown = () => {
+    // Streams and injected timeouts would otherwise keep the process alive
+    server.closeAllConnections();
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  console.error(USAGE);
+  process.exit(1);
+});
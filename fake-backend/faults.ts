@@ -0,0 +1,68 @@
+export const FAULT_TYPES = ['timeout', 'unauthorized', 'rate-limit', 'server-error', 'malformed', 'degraded'] as const;
+
+export type FaultType = typeof FAULT_TYPES[number];
+
+/** Shorthands accepted on the command line and by the admin API */
+const FAULT_ALIASES: Record<string, FaultType> = {
+  '401': 'unauthorized',
+  '429': 'rate-limit',
+  '500': 'server-error',
+};
+
+export interface FaultRule {
+  type: FaultType;
+  /** Route without the API prefix, e.g. "/hackrx/run" */
+  route: string;
+  /** Requests left to fail; undefined fails every matching request */
+  remaining?: number;
+  /** Chance, 0-1, that a matching request fails */
+  probability: number;
+}
+
+export function parseFaultType(value: string): FaultType {
+  const type = FAULT_ALIASES[value] ?? value;
+  if (!FAULT_TYPES.includes(type as FaultType)) {
+    throw new Error(`Unknown fault "${value}"; expected one of ${[...FAULT_TYPES, ...Object.keys(FAULT_ALIASES)].join(', ')}`);
+  }
+  return type as FaultType;
+}
+
+/**
+ * Decides which requests fail and how. Rules are checked in the order they
+ * were added; the first one that applies is consumed.
+ */
+export class FaultInjector {
+  private rules: FaultRule[] = [];
+
+  add(rule: Partial<Omit<FaultRule, 'type'>> & { type: string }): FaultRule {
+    const added: FaultRule = {
+      type: parseFaultType(rule.type),
+      route: rule.route ?? '/hackrx/run',
+      remaining: rule.remaining,
+      probability: rule.probability ?? 1,
+    };
+    this.rules.push(added);
+    return added;
+  }
+
+  list(): FaultRule[] {
+    return [...this.rules];
+  }
+
+  clear(): void {
+    this.rules = [];
+  }
+
+  take(route: string): FaultType | null {
+    const rule = this.rules.find(candidate => candidate.route === route && candidate.remaining !== 0);
+    if (!rule || Math.random() >= rule.probability) return null;
+
+    if (rule.remaining !== undefined) {
+      rule.remaining--;
+      if (rule.remaining === 0) {
+        this.rules = this.rules.filter(candidate => candidate !== rule);
+      }
+    }
+    return rule.type;
+  }
+}
@@ -0,0 +1,40 @@
+import { readFile } from 'node:fs/promises';
+
+export interface FixtureCitation {
+  page?: number;
+  clause?: string;
+  snippet: string;
+  score: number;
+}
+
+export interface FixtureAnswer {
+  answer: string;
+  citations: FixtureCitation[];
+  reasoning?: string;
+}
+
+export interface FixtureRule extends FixtureAnswer {
+  /** Matches when the question contains any of these, case-insensitively */
+  keywords: string[];
+}
+
+export interface Fixtures {
+  defaultAnswer: FixtureAnswer;
+  rules: FixtureRule[];
+}
+
+export async function loadFixtures(path: string): Promise<Fixtures> {
+  const fixtures = JSON.parse(await readFile(path, 'utf8')) as Partial<Fixtures>;
+
+  if (!fixtures.defaultAnswer || !Array.isArray(fixtures.rules)) {
+    throw new Error(`${path}: fixtures need a "defaultAnswer" and a "rules" array`);
+  }
+  return { defaultAnswer: fixtures.defaultAnswer, rules: fixtures.rules };
+}
+
+/** The first rule whose keyword appears in the question, or the default answer. */
+export function answerFor(fixtures: Fixtures, question: string): FixtureAnswer {
+  const lower = question.toLowerCase();
+  const rule = fixtures.rules.find(({ keywords }) => keywords.some(keyword => lower.includes(keyword.toLowerCase())));
+  return rule ?? fixtures.defaultAnswer;
+}
@@ -0,0 +1,439 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { appendFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { FaultInjector, type FaultRule, type FaultType } from './faults';
+import { answerFor, type FixtureAnswer, type Fixtures } from './fixtures';
+
+export interface FakeBackendSettings {
+  /** Delay before every API response */
+  latencyMs: number;
+  /** Delay between streamed tokens */
+  tokenDelayMs: number;
+  /** How long an uploaded document stays 'processing' */
+  processingMs: number;
+  /** Static bearer token (API key) the API accepts */
+  token?: string;
+  /** Username → password pairs accepted by /auth/login */
+  users: Record<string, string>;
+  /** Lifetime of tokens issued by /auth/login and /auth/refresh */
+  tokenTtlMs: number;
+}
+
+export interface FakeBackendOptions {
+  fixtures: Fixtures;
+  settings: FakeBackendSettings;
+  /** Path the API is served under, e.g. "/api/v1" */
+  prefix: string;
+  /** Appends every recorded request to this file as JSON lines */
+  recordFile?: string;
+  faults?: FaultInjector;
+  log?: (line: string) => void;
+}
+
+export interface RecordedRequest {
+  id: string;
+  receivedAt: string;
+  method: string;
+  path: string;
+  headers: Record<string, string | string[]>;
+  body?: unknown;
+  status?: number;
+  fault?: FaultType;
+  durationMs?: number;
+}
+
+interface IssuedToken {
+  username: string;
+  expiresAt: number;
+}
+
+interface StoredDocument {
+  id: string;
+  name: string;
+  type: string;
+  bytes: Buffer;
+  uploadedAt: number;
+}
+
+type StreamFormat = 'sse' | 'ndjson';
+
+const MAX_RECORDED = 500;
+const ADMIN_PREFIX = '/__admin';
+/**
+ * Routes that work without a token, like a real deployment's sign-in, file
+ * links and health check. API keys are checked by the first request that
+ * needs one, as they are against a real backend.
+ */
+const PUBLIC_ROUTES = [/^\/auth\//, /^\/files\//, /^\/health$/];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * An in-memory stand-in for the HackRx backend: `/hackrx/run` answers from
+ * fixtures as JSON, SSE or NDJSON, `/documents` accepts uploads, `/health`
+ * reports readiness, `/auth` issues expiring tokens, and `/__admin` lets
+ * scripts inject faults, change latency and read back the requests the app made.
+ *
+ * Authentication is only enforced once a static token or a user is configured.
+ */
+export function createFakeBackend({ fixtures, settings, prefix, recordFile, faults = new FaultInjector(), log = console.log }: FakeBackendOptions): Server {
+  const documents = new Map<string, StoredDocument>();
+  const accessTokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Map<string, string>();
+  let recorded: RecordedRequest[] = [];
+
+  const handleApi = async (req: IncomingMessage, res: ServerResponse, url: URL, record: RecordedRequest) => {
+    const route = url.pathname.slice(prefix.length) || '/';
+
+    const isPublic = PUBLIC_ROUTES.some(pattern => pattern.test(route));
+    if (!isPublic && !isAuthorized(req.headers.authorization)) {
+      throw new HttpError(401, 'Invalid, expired or missing bearer token');
+    }
+
+    const fault = faults.take(route);
+    record.fault = fault ?? undefined;
+    await sleep(settings.latencyMs);
+    if (fault) {
+      return applyFault(res, route, fault);
+    }
+
+    if (req.method === 'GET' && route === '/health') {
+      return sendJson(res, 200, { status: 'ok', documents: documents.size });
+    }
+    if (req.method === 'POST' && route === '/auth/login') {
+      return handleLogin(req, res, record);
+    }
+    if (req.method === 'POST' && route === '/auth/refresh') {
+      return handleRefresh(req, res, record);
+    }
+    if (req.method === 'POST' && route === '/hackrx/run') {
+      return handleRun(req, res, record);
+    }
+    if (req.method === 'POST' && route === '/documents') {
+      return handleUpload(req, res, url, record);
+    }
+
+    const documentMatch = /^\/documents\/([^/]+)$/.exec(route);
+    if (req.method === 'GET' && documentMatch) {
+      return sendJson(res, 200, documentStatus(getDocument(documentMatch[1]), url));
+    }
+
+    const fileMatch = /^\/files\/([^/]+)$/.exec(route);
+    if (req.method === 'GET' && fileMatch) {
+      const document = getDocument(fileMatch[1]);
+      res.writeHead(200, { 'Content-Type': document.type || 'application/octet-stream', 'Content-Length': document.bytes.length });
+      return res.end(document.bytes);
+    }
+
+    throw new HttpError(404, `No fake route for ${req.method} ${route}`);
+  };
+
+  const isAuthorized = (authorization: string | undefined): boolean => {
+    if (!settings.token && Object.keys(settings.users).length === 0) return true;
+
+    const token = authorization?.replace(/^Bearer /, '');
+    if (!token) return false;
+    if (token === settings.token) return true;
+
+    const issued = accessTokens.get(token);
+    return Boolean(issued && issued.expiresAt > Date.now());
+  };
+
+  const issueTokens = (res: ServerResponse, username: string) => {
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    accessTokens.set(accessToken, { username, expiresAt: Date.now() + settings.tokenTtlMs });
+    refreshTokens.set(refreshToken, username);
+
+    return sendJson(res, 200, {
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: Math.round(settings.tokenTtlMs / 1000),
+      refresh_token: refreshToken,
+    });
+  };
+
+  const handleLogin = async (req: IncomingMessage, res: ServerResponse, record: RecordedRequest) => {
+    const body = await readJson(req) as { username?: unknown; password?: unknown };
+    record.body = { username: body?.username, password: body?.password === undefined ? undefined : '[redacted]' };
+
+    if (typeof body?.username !== 'string' || typeof body?.password !== 'string') {
+      throw new HttpError(422, 'Expected {"username": string, "password": string}');
+    }
+    if (settings.users[body.username] !== body.password) {
+      throw new HttpError(401, 'Incorrect username or password');
+    }
+    return issueTokens(res, body.username);
+  };
+
+  const handleRefresh = async (req: IncomingMessage, res: ServerResponse, record: RecordedRequest) => {
+    const body = await readJson(req) as { refresh_token?: unknown };
+    record.body = { refresh_token: '[redacted]' };
+
+    const username = typeof body?.refresh_token === 'string' ? refreshTokens.get(body.refresh_token) : undefined;
+    if (!username) {
+      throw new HttpError(401, 'Invalid refresh token');
+    }
+    // Refresh tokens are single-use, like most real identity providers
+    refreshTokens.delete(body.refresh_token as string);
+    return issueTokens(res, username);
+  };
+
+  const handleRun = async (req: IncomingMessage, res: ServerResponse, record: RecordedRequest) => {
+    const body = await readJson(req) as { documents?: unknown; questions?: unknown };
+    record.body = body;
+
+    const questions = body?.questions;
+    if (typeof body?.documents !== 'string' || !body.documents || !Array.isArray(questions) || questions.length === 0
+      || !questions.every(question => typeof question === 'string' && question)) {
+      throw new HttpError(422, 'Expected {"documents": string, "questions": non-empty string[]}');
+    }
+
+    const documentId = documentIdFor(body.documents);
+    const answers = (questions as string[]).map(question => withDocumentId(answerFor(fixtures, question), documentId));
+    const format = streamFormatFor(req.headers.accept);
+
+    if (!format) {
+      return sendJson(res, 200, {
+        answers: answers.map(({ answer }) => answer),
+        citations: answers.map(({ citations }) => citations),
+        reasoning: answers.map(({ reasoning }) => reasoning ?? ''),
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    });
+
+    const write = (event: object) => res.write(format === 'sse' ? `data: ${JSON.stringify(event)}\n\n` : `${JSON.stringify(event)}\n`);
+
+    for (const [index, answer] of answers.entries()) {
+      for (const word of answer.answer.split(/(?<= )/)) {
+        // Stop generating once the client has cancelled
+        if (res.destroyed) return;
+        write({ type: 'token', index, delta: word });
+        await sleep(settings.tokenDelayMs);
+      }
+      write({ type: 'answer', index, answer: answer.answer, citations: answer.citations, reasoning: answer.reasoning });
+    }
+
+    write({ type: 'done' });
+    if (format === 'sse') res.write('data: [DONE]\n\n');
+    res.end();
+  };
+
+  const handleUpload = async (req: IncomingMessage, res: ServerResponse, url: URL, record: RecordedRequest) => {
+    if (!req.headers['content-type']?.startsWith('multipart/form-data')) {
+      throw new HttpError(415, 'Uploads must be multipart/form-data');
+    }
+
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([name, value]) => {
+      if (typeof value === 'string') headers.set(name, value);
+    });
+    const form = await new Request(url, {
+      method: 'POST',
+      headers,
+      body: Readable.toWeb(req) as ReadableStream,
+      duplex: 'half',
+    } as RequestInit).formData();
+
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      throw new HttpError(422, 'Expected a "file" field');
+    }
+
+    const document: StoredDocument = {
+      id: randomUUID(),
+      name: file.name,
+      type: file.type,
+      bytes: Buffer.from(await file.arrayBuffer()),
+      uploadedAt: Date.now(),
+    };
+    documents.set(document.id, document);
+    record.body = { file: { name: file.name, type: file.type, size: file.size } };
+
+    const { status, url: fileUrl } = documentStatus(document, url);
+    return sendJson(res, 201, { id: document.id, url: fileUrl, status });
+  };
+
+  const getDocument = (id: string): StoredDocument => {
+    const document = documents.get(decodeURIComponent(id));
+    if (!document) throw new HttpError(404, 'Document not found');
+    return document;
+  };
+
+  const documentStatus = (document: StoredDocument, url: URL) => {
+    const elapsed = Date.now() - document.uploadedAt;
+    const ready = elapsed >= settings.processingMs;
+    return {
+      status: ready ? 'ready' : 'processing',
+      progress: ready ? 100 : Math.round((elapsed / settings.processingMs) * 100),
+      url: `${url.origin}${prefix}/files/${document.id}`,
+    };
+  };
+
+  // Uploaded documents are cited by their ID; anything else is treated as the sample policy
+  const documentIdFor = (documentUrl: string): string => {
+    const match = /\/files\/([^/?#]+)/.exec(documentUrl);
+    return match && documents.has(match[1]) ? match[1] : 'sample-policy';
+  };
+
+  const handleAdmin = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const route = url.pathname.slice(ADMIN_PREFIX.length);
+
+    switch (`${req.method} ${route}`) {
+      case 'GET /requests':
+        return sendJson(res, 200, recorded);
+      case 'DELETE /requests':
+        recorded = [];
+        return sendEmpty(res);
+      case 'GET /faults':
+        return sendJson(res, 200, faults.list());
+      case 'POST /faults': {
+        const body = await readJson(req) as Partial<Omit<FaultRule, 'type'>> & { type: string; count?: number };
+        try {
+          return sendJson(res, 201, faults.add({ ...body, remaining: body.count ?? body.remaining }));
+        } catch (error) {
+          throw new HttpError(400, (error as Error).message);
+        }
+      }
+      case 'DELETE /faults':
+        faults.clear();
+        return sendEmpty(res);
+      case 'GET /settings':
+        return sendJson(res, 200, settings);
+      case 'POST /settings':
+        Object.assign(settings, await readJson(req));
+        return sendJson(res, 200, settings);
+      case 'POST /reset':
+        recorded = [];
+        faults.clear();
+        documents.clear();
+        accessTokens.clear();
+        refreshTokens.clear();
+        return sendEmpty(res);
+      default:
+        throw new HttpError(404, `No admin route for ${req.method} ${route}`);
+    }
+  };
+
+  return createServer(async (req, res) => {
+    setCorsHeaders(req, res);
+    if (req.method === 'OPTIONS') {
+      return sendEmpty(res);
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const startedAt = Date.now();
+
+    try {
+      if (url.pathname.startsWith(ADMIN_PREFIX)) {
+        return await handleAdmin(req, res, url);
+      }
+      if (!url.pathname.startsWith(prefix)) {
+        throw new HttpError(404, `The fake API is served under ${prefix}`);
+      }
+
+      const record: RecordedRequest = {
+        id: randomUUID(),
+        receivedAt: new Date(startedAt).toISOString(),
+        method: req.method ?? 'GET',
+        path: url.pathname + url.search,
+        headers: req.headers as Record<string, string | string[]>,
+      };
+      recorded = [...recorded, record].slice(-MAX_RECORDED);
+
+      res.on('close', () => {
+        record.status = res.statusCode;
+        record.durationMs = Date.now() - startedAt;
+        log(`${record.method} ${record.path} → ${res.headersSent ? res.statusCode : 'no response'} ${record.durationMs}ms${record.fault ? ` [${record.fault}]` : ''}`);
+        if (recordFile) {
+          appendFile(recordFile, `${JSON.stringify(record)}\n`).catch(error => log(`Unable to record request: ${error.message}`));
+        }
+      });
+
+      await handleApi(req, res, url, record);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (!res.headersSent) {
+        sendJson(res, status, { detail: (error as Error).message });
+      } else {
+        res.end();
+      }
+    }
+  });
+}
+
+function applyFault(res: ServerResponse, route: string, fault: FaultType): void {
+  switch (fault) {
+    case 'timeout':
+      // Never answer; the client's own timeout has to fire
+      return;
+    case 'unauthorized':
+      return sendJson(res, 401, { detail: 'Token expired (injected fault)' });
+    case 'rate-limit':
+      res.setHeader('Retry-After', '1');
+      return sendJson(res, 429, { detail: 'Too many requests (injected fault)' });
+    case 'server-error':
+      return sendJson(res, 500, { detail: 'Internal server error (injected fault)' });
+    case 'malformed':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"answers": ["The grace period is thir');
+      return;
+    case 'degraded':
+      return route === '/health'
+        ? sendJson(res, 200, { status: 'degraded', detail: 'Vector store unavailable (injected fault)' })
+        : sendJson(res, 503, { detail: 'Service degraded (injected fault)' });
+  }
+}
+
+function withDocumentId(answer: FixtureAnswer, documentId: string): FixtureAnswer {
+  return { ...answer, citations: answer.citations.map(citation => ({ documentId, ...citation })) };
+}
+
+function streamFormatFor(accept: string | undefined): StreamFormat | null {
+  const value = accept?.toLowerCase() ?? '';
+  if (value.includes('text/event-stream')) return 'sse';
+  if (value.includes('application/x-ndjson')) return 'ndjson';
+  return null;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  res.setHeader('Vary', 'Origin');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendEmpty(res: ServerResponse): void {
+  res.writeHead(204);
+  res.end();
+}
@@ -0,0 +1,72 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { Citation } from '@/types/query';
+import { FileText, Hash, BookOpen } from 'lucide-react';
+
+interface CitationBadgeProps {
+  citation: Citation;
+  /** Display name of the cited document, when it is one of the user's uploads */
+  documentName?: string;
+  /** Opens the cited passage in the document viewer; omitted when the document cannot be shown */
+  onShow?: () => void;
+}
+
+const formatCitationLocation = (citation: Citation): string =>
+  [citation.section || (citation.clause && `§ ${citation.clause}`), citation.page && `p. ${citation.page}`].filter(Boolean).join(' · ');
+
+export const CitationBadge = ({ citation, documentName, onShow }: CitationBadgeProps) => {
+  const location = formatCitationLocation(citation);
+  const name = documentName || citation.documentId;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Badge
+          variant="outline"
+          className="px-3 py-1 bg-white/70 cursor-pointer hover:bg-accent/10 transition-colors max-w-xs"
+          onClick={onShow}
+        >
+          <span className="truncate">{name}</span>
+          {location && <span className="ml-1 text-muted-foreground truncate">· {location}</span>}
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-3">
+        <div className="flex items-start gap-2">
+          <FileText className="h-4 w-4 text-accent shrink-0 mt-0.5" />
+          <div className="min-w-0">
+            <p className="font-semibold text-sm truncate">{name}</p>
+            <p className="text-xs text-muted-foreground truncate">ID: {citation.documentId}</p>
+          </div>
+        </div>
+
+        <div className="flex gap-4 text-xs text-muted-foreground">
+          {(citation.section || citation.clause) && (
+            <span className="flex items-center gap-1 min-w-0">
+              <Hash className="h-3 w-3 shrink-0" />
+              <span className="truncate">{citation.section || `Clause ${citation.clause}`}</span>
+            </span>
+          )}
+          {citation.page && (
+            <span className="flex items-center gap-1">
+              <BookOpen className="h-3 w-3" />
+              Page {citation.page}
+            </span>
+          )}
+        </div>
+
+        <blockquote className="border-l-4 border-accent pl-3 text-sm italic leading-relaxed max-h-48 overflow-y-auto">
+          “{citation.snippet}”
+        </blockquote>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Retrieval score</span>
+            <span className="font-medium">{Math.round(citation.score * 100)}%</span>
+          </div>
+          <Progress value={citation.score * 100} className="h-2" />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,81 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/components/ui/use-toast';
+import type { ContractError } from '@/services/errors';
+import { Bug, Copy } from 'lucide-react';
+
+interface ContractErrorDialogProps {
+  error: ContractError;
+}
+
+const formatPayload = (payload: unknown): string => {
+  if (typeof payload !== 'string') {
+    return JSON.stringify(payload, null, 2);
+  }
+
+  // Pretty-print when the raw body happens to be valid JSON
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+};
+
+export const ContractErrorDialog = ({ error }: ContractErrorDialogProps) => {
+  const { toast } = useToast();
+  const payload = formatPayload(error.payload);
+
+  const copyPayload = async () => {
+    await navigator.clipboard.writeText(payload);
+    toast({
+      title: "Copied",
+      description: "Raw payload copied to clipboard",
+    });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="mt-3 bg-white/70">
+          <Bug className="mr-2 h-4 w-4" />
+          View raw {error.direction}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {error.message}
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            <Badge variant="outline">{error.direction}</Badge>
+            <code className="text-xs">{error.endpoint}</code>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h5 className="font-semibold text-sm">Validation issues</h5>
+          <ul className="list-disc pl-5 text-sm text-destructive space-y-1">
+            {error.issues.map((issue, index) => (
+              <li key={index}><code>{issue}</code></li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h5 className="font-semibold text-sm">Raw payload</h5>
+            <Button variant="ghost" size="sm" onClick={copyPayload}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+          <ScrollArea className="h-72 rounded-lg border bg-muted/40">
+            <pre className="p-4 text-xs whitespace-pre-wrap break-all">{payload || '(empty body)'}</pre>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
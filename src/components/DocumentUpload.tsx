@@ -1,27 +1,123 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/components/ui/use-toast';
-import { Upload, FileText, CheckCircle, AlertCircle } from 'lucide-react';
-
-interface Document {
-  id: string;
-  name: string;
-  type: string;
-  url: string;
-  status: 'uploading' | 'processing' | 'ready' | 'error';
-  progress: number;
-}
+import { useDocumentStatus, useUploadDocument } from '@/hooks/use-documents';
+import { useParsedDocument } from '@/hooks/use-parsed-document';
+import type { DocumentStatusUpdate } from '@/services/UploadService';
+import { AnswerCache } from '@/services/AnswerCache';
+import { ConfigService } from '@/services/ConfigService';
+import { DocumentParser } from '@/services/DocumentParser';
+import { LocalIndex } from '@/services/LocalIndex';
+import { getBackend } from '@/services/backends';
+import { sha256Hex } from '@/lib/hash';
+import { flattenSections } from '@/lib/parsers/clauses';
+import { ACCEPTED_FILE_TYPES, formatList, formatOf } from '@/lib/parsers/formats';
+import type { Document } from '@/types/document';
+import { Upload, FileText, CheckCircle, AlertCircle, Eye } from 'lucide-react';
 
 interface DocumentUploadProps {
   onDocumentsReady: (documents: Document[]) => void;
+  /** Opens a document in the document viewer */
+  onView?: (document: Document) => void;
+}
+
+/** A file whose bytes match a document that is already ready, waiting for the user to choose */
+interface PendingDuplicate {
+  file: File;
+  existing: Document;
+  /** Unexpired answers cached for the existing document under the active profile */
+  cachedAnswers: number;
+}
+
+interface DocumentStatusWatcherProps {
+  document: Document;
+  onUpdate: (document: Document, update: DocumentStatusUpdate) => void;
+  onError: (document: Document, error: Error) => void;
 }
 
-export const DocumentUpload = ({ onDocumentsReady }: DocumentUploadProps) => {
+/** Documents are named by their content, so the same file gets the same ID in every session. */
+const toDocumentId = (contentHash: string) => `sha256-${contentHash}`;
+
+/** Polls the server-side status of one processing document; renders nothing. */
+const DocumentStatusWatcher = ({ document, onUpdate, onError }: DocumentStatusWatcherProps) => {
+  const { data, error } = useDocumentStatus(document.serverId, { enabled: document.status === 'processing' });
+
+  useEffect(() => {
+    if (data) onUpdate(document, data);
+    // Only react to new status data, not to the document changes it causes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data]);
+
+  useEffect(() => {
+    if (error) onError(document, error);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [error]);
+
+  return null;
+};
+
+/** What the in-browser parser made of a document, next to its upload status. */
+const ParseSummary = ({ documentId }: { documentId: string }) => {
+  const state = useParsedDocument(documentId);
+  if (!state) return null;
+
+  if (state.status === 'parsing') {
+    return <p className="text-xs text-muted-foreground">Reading text… {Math.round(state.progress)}%</p>;
+  }
+  if (state.status === 'failed') {
+    return <p className="text-xs text-muted-foreground">Text not available locally: {state.error?.message}</p>;
+  }
+
+  const { format, metadata, sections } = state.document;
+  const clauses = flattenSections(sections).filter(section => section.kind === 'clause').length;
+  // Only PDF pages are real pages and workbooks have a page per sheet; other formats are split at explicit page breaks, if any
+  const size = format === 'pdf'
+    ? `${metadata.pageCount} page${metadata.pageCount === 1 ? '' : 's'}`
+    : format === 'xlsx'
+      ? `${metadata.pageCount} sheet${metadata.pageCount === 1 ? '' : 's'}`
+      : `${metadata.wordCount.toLocaleString()} word${metadata.wordCount === 1 ? '' : 's'}`;
+  return (
+    <p className="text-xs text-muted-foreground truncate">
+      {size}
+      {clauses > 0 && ` · ${clauses} clause${clauses === 1 ? '' : 's'}`}
+      {metadata.title && ` · ${metadata.title}`}
+    </p>
+  );
+};
+
+/** Opens a document in the viewer, once it has been read in the browser. */
+const ViewButton = ({ document, onView }: { document: Document; onView: (document: Document) => void }) => {
+  const state = useParsedDocument(document.id);
+  if (state?.status !== 'parsed') return null;
+
+  return (
+    <Button variant="ghost" size="icon" onClick={() => onView(document)} title="View document">
+      <Eye className="h-4 w-4" />
+    </Button>
+  );
+};
+
+export const DocumentUpload = ({ onDocumentsReady, onView }: DocumentUploadProps) => {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [duplicates, setDuplicates] = useState<PendingDuplicate[]>([]);
+  // Files are checked for duplicates before a render can catch up with the ones just added
+  const documentsRef = useRef<Document[]>([]);
+  documentsRef.current = documents;
+  const upload = useUploadDocument();
   const { toast } = useToast();
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -37,18 +133,17 @@ export const DocumentUpload = ({ onDocumentsReady }: DocumentUploadProps) => {
     processFiles(files);
   };
 
-  const processFiles = (files: File[]) => {
-    const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
+  const processFiles = async (files: File[]) => {
     const maxFileSize = 10 * 1024 * 1024; // 10MB limit
-    
-    files.forEach((file) => {
-      if (!validTypes.includes(file.type)) {
+
+    const accepted = files.filter((file) => {
+      if (!formatOf(file)) {
         toast({
           title: "Unsupported file type",
-          description: `${file.name} is not a supported format. Please upload PDF, DOCX, or TXT files.`,
+          description: `${file.name} is not a supported format. Please upload ${formatList()} files.`,
           variant: "destructive",
         });
-        return;
+        return false;
       }
 
       if (file.size > maxFileSize) {
@@ -57,68 +152,180 @@ export const DocumentUpload = ({ onDocumentsReady }: DocumentUploadProps) => {
           description: `${file.name} exceeds the 10MB size limit.`,
           variant: "destructive",
         });
-        return;
+        return false;
       }
+      return true;
+    });
 
-      const newDoc: Document = {
-        id: Math.random().toString(36),
-        name: file.name,
-        type: file.type,
-        url: URL.createObjectURL(file),
-        status: 'uploading',
-        progress: 0,
-      };
-
-      setDocuments(prev => [...prev, newDoc]);
-      
-      // Enhanced upload simulation with realistic progress
-      simulateUpload(newDoc.id);
-      
+    // One at a time, so a file picked twice in one go is caught as a duplicate of itself
+    for (const file of accepted) {
+      await ingestFile(file);
+    }
+  };
+
+  const ingestFile = async (file: File) => {
+    // Answers are cached per content hash; a failed hash only costs the cache and duplicate detection
+    const contentHash = await file.arrayBuffer().then(sha256Hex).catch(() => undefined);
+    const id = contentHash ? toDocumentId(contentHash) : Math.random().toString(36);
+    const existing = documentsRef.current.find(doc => doc.id === id);
+
+    if (existing?.status === 'ready') {
+      const cachedAnswers = await AnswerCache.count(ConfigService.getActiveProfile(), contentHash);
+      setDuplicates(prev => [...prev, { file, existing, cachedAnswers }]);
+      return;
+    }
+    if (existing && existing.status !== 'error') {
       toast({
-        title: "Upload started",
-        description: `Processing ${file.name}...`,
+        title: "Already uploading",
+        description: `${file.name} has the same content as ${existing.name}, which is still being processed.`,
       });
+      return;
+    }
+
+    // A failed earlier upload of the same bytes is simply retried
+    startDocument(file, id, contentHash);
+  };
+
+  const startDocument = (file: File, id: string, contentHash: string | undefined) => {
+    const newDoc: Document = {
+      id,
+      name: file.name,
+      type: file.type,
+      url: '',
+      contentHash,
+      status: 'uploading',
+      progress: 0,
+    };
+
+    const replaced = documentsRef.current.some(doc => doc.id === id);
+    documentsRef.current = replaced
+      ? documentsRef.current.map(doc => (doc.id === id ? newDoc : doc))
+      : [...documentsRef.current, newDoc];
+    setDocuments(prev => {
+      const updated = replaced ? prev.map(doc => (doc.id === id ? newDoc : doc)) : [...prev, newDoc];
+      if (replaced) {
+        onDocumentsReady(updated.filter(d => d.status === 'ready'));
+      }
+      return updated;
     });
+
+    // Parsed documents are indexed for local search and answers
+    const indexed = DocumentParser.isSupported(file)
+      ? DocumentParser.parse(id, file).then(parsed => LocalIndex.add(id, parsed))
+      : null;
+
+    if (!getBackend(ConfigService.getActiveProfile().adapter).uploadsDocuments) {
+      // The backend answers from the copy read in the browser, so nothing is uploaded
+      readDocument(id, file, indexed);
+    } else {
+      uploadDocument(id, file);
+      // Local parsing is independent of the upload; a failure only shows on the document
+      indexed?.catch(error => console.warn(`Could not parse ${file.name}:`, error));
+    }
+
+    toast({
+      title: "Upload started",
+      description: `Processing ${file.name}...`,
+    });
+  };
+
+  const resolveDuplicate = (processAgain: boolean) => {
+    const [duplicate] = duplicates;
+    if (!duplicate) return;
+    setDuplicates(prev => prev.slice(1));
+
+    const { file, existing, cachedAnswers } = duplicate;
+    if (processAgain) {
+      // Answers about the earlier processing would be served in place of fresh ones
+      if (cachedAnswers > 0) {
+        AnswerCache.invalidate({ profile: ConfigService.getActiveProfile(), documentHash: existing.contentHash })
+          .catch(error => console.warn('Unable to clear cached answers:', error));
+      }
+      startDocument(file, existing.id, existing.contentHash);
+    } else {
+      toast({
+        title: "Using existing document",
+        description: `${file.name} has the same content as ${existing.name}, which is ready for querying.`,
+      });
+    }
+  };
+
+  const updateDocument = (docId: string, changes: Partial<Document>) => {
+    setDocuments(prev => {
+      const updated = prev.map(doc => 
+        doc.id === docId ? { ...doc, ...changes } : doc
+      );
+      if (changes.status === 'ready') {
+        onDocumentsReady(updated.filter(d => d.status === 'ready'));
+      }
+      return updated;
+    });
+  };
+
+  const uploadDocument = async (docId: string, file: File) => {
+    try {
+      const uploaded = await upload.mutateAsync({
+        file,
+        onProgress: (loaded, total) => updateDocument(docId, { progress: (loaded / total) * 100 }),
+      });
+
+      // Documents still processing on the server are polled by their DocumentStatusWatcher
+      const ready = uploaded.status === 'ready';
+      updateDocument(docId, {
+        serverId: uploaded.id,
+        url: uploaded.url,
+        status: ready ? 'ready' : 'processing',
+        progress: ready ? 100 : 0,
+      });
+      if (ready) {
+        notifyProcessed();
+      }
+    } catch (error) {
+      failDocument(docId, file.name, error);
+    }
   };
 
-  const simulateUpload = (docId: string) => {
-    let progress = 0;
-    const interval = setInterval(() => {
-      progress += Math.random() * 20;
-      
-      if (progress >= 100) {
-        clearInterval(interval);
-        setDocuments(prev => prev.map(doc => 
-          doc.id === docId 
-            ? { ...doc, status: 'processing' as const, progress: 100 }
-            : doc
-        ));
-        
-        // Simulate processing
-        setTimeout(() => {
-          setDocuments(prev => {
-            const updated = prev.map(doc => 
-              doc.id === docId 
-                ? { ...doc, status: 'ready' as const, progress: 100 }
-                : doc
-            );
-            onDocumentsReady(updated.filter(d => d.status === 'ready'));
-            return updated;
-          });
-          
-          toast({
-            title: "Document processed",
-            description: "Document is ready for querying",
-          });
-        }, 2000);
-      } else {
-        setDocuments(prev => prev.map(doc => 
-          doc.id === docId 
-            ? { ...doc, progress }
-            : doc
-        ));
+  const readDocument = async (docId: string, file: File, indexed: Promise<number> | null) => {
+    updateDocument(docId, { status: 'processing', progress: 0 });
+    try {
+      if (!indexed) {
+        throw new Error('This file type cannot be read in the browser');
       }
-    }, 500);
+      await indexed;
+      updateDocument(docId, { status: 'ready', progress: 100 });
+      notifyProcessed();
+    } catch (error) {
+      failDocument(docId, file.name, error);
+    }
+  };
+
+  const handleStatusUpdate = (doc: Document, update: DocumentStatusUpdate) => {
+    if (update.status === 'ready') {
+      updateDocument(doc.id, { status: 'ready', progress: 100, url: update.url || doc.url });
+      notifyProcessed();
+    } else if (update.status === 'error') {
+      failDocument(doc.id, doc.name, new Error(update.error || 'The server could not process this document'));
+    } else if (update.progress !== undefined) {
+      // Progress switches from upload bytes to server-side processing when the backend reports it
+      updateDocument(doc.id, { progress: update.progress });
+    }
+  };
+
+  const notifyProcessed = () => {
+    toast({
+      title: "Document processed",
+      description: "Document is ready for querying",
+    });
+  };
+
+  const failDocument = (docId: string, name: string, error: Error) => {
+    console.error('Document upload failed:', error);
+    updateDocument(docId, { status: 'error', error: error.message });
+    toast({
+      title: "Upload failed",
+      description: `${name}: ${error.message}`,
+      variant: "destructive",
+    });
   };
 
   const getStatusIcon = (status: Document['status']) => {
@@ -165,12 +372,12 @@ export const DocumentUpload = ({ onDocumentsReady }: DocumentUploadProps) => {
           </div>
           <h3 className="text-xl font-bold mb-2">Drop documents here</h3>
           <p className="text-muted-foreground mb-6 text-sm">
-            Supports PDF, DOCX, and TXT files up to 10MB each
+            Supports {formatList('and')} files up to 10MB each
           </p>
           <Input
             type="file"
             multiple
-            accept=".pdf,.docx,.txt"
+            accept={ACCEPTED_FILE_TYPES}
             onChange={handleFileSelect}
             className="hidden"
             id="file-upload"
@@ -190,6 +397,14 @@ export const DocumentUpload = ({ onDocumentsReady }: DocumentUploadProps) => {
               Uploaded Documents ({documents.length})
             </h4>
             <div className="space-y-3">
+              {documents.filter(doc => doc.status === 'processing' && doc.serverId).map(doc => (
+                <DocumentStatusWatcher
+                  key={doc.id}
+                  document={doc}
+                  onUpdate={handleStatusUpdate}
+                  onError={(failed, error) => failDocument(failed.id, failed.name, error)}
+                />
+              ))}
               {documents.map((doc) => (
                 <div key={doc.id} className="flex items-center gap-4 p-4 bg-white/70 border border-border/50 rounded-xl shadow-card hover:shadow-elegant transition-all duration-300">
                   {getStatusIcon(doc.status)}
@@ -198,9 +413,11 @@ export const DocumentUpload = ({ onDocumentsReady }: DocumentUploadProps) => {
                     <p className="text-sm text-muted-foreground font-medium">
                       {doc.status === 'uploading' ? 'Uploading document...' : 
                        doc.status === 'processing' ? 'Analyzing content...' : 
-                       doc.status === 'ready' ? 'Ready for analysis' : 'Processing failed'}
+                       doc.status === 'ready' ? 'Ready for analysis' : (doc.error || 'Processing failed')}
                     </p>
+                    <ParseSummary documentId={doc.id} />
                   </div>
+                  {onView && doc.status === 'ready' && <ViewButton document={doc} onView={onView} />}
                   {(doc.status === 'uploading' || doc.status === 'processing') && (
                     <div className="w-32">
                       <Progress value={doc.progress} className="h-3 bg-muted" />
@@ -215,6 +432,27 @@ export const DocumentUpload = ({ onDocumentsReady }: DocumentUploadProps) => {
           </div>
         )}
       </CardContent>
+
+      {/* Each button resolves the first duplicate itself; the next one, if any, keeps the dialog open */}
+      <AlertDialog open={duplicates.length > 0}>
+        {duplicates[0] && (
+          <AlertDialogContent onEscapeKeyDown={() => resolveDuplicate(false)}>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Document already uploaded</AlertDialogTitle>
+              <AlertDialogDescription>
+                {duplicates[0].file.name} has the same content as {duplicates[0].existing.name}.
+                {duplicates[0].cachedAnswers > 0
+                  ? ` Using the existing document keeps its ${duplicates[0].cachedAnswers} cached answer${duplicates[0].cachedAnswers === 1 ? '' : 's'}; processing it again clears them.`
+                  : ' Using the existing document skips processing it again.'}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel onClick={() => resolveDuplicate(true)}>Process again</AlertDialogCancel>
+              <AlertDialogAction onClick={() => resolveDuplicate(false)}>Use existing</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,523 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useParsedDocument } from '@/hooks/use-parsed-document';
+import { loadPdf } from '@/lib/pdfjs';
+import { flattenSections } from '@/lib/parsers/clauses';
+import { findSection, locatePassage, sectionLabelAt, type PassageLocation } from '@/lib/retrieval/locate';
+import { DocumentParser } from '@/services/DocumentParser';
+import type { Document } from '@/types/document';
+import type { BoundingBox, ParsedDocument, ParsedPage, TextBlock } from '@/types/parsedDocument';
+import type { Citation } from '@/types/query';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, FileText, ListTree, Loader2, Search, X, ZoomIn, ZoomOut } from 'lucide-react';
+
+/** A citation to show; every new target scrolls to its passage, even when it cites the same passage again. */
+export interface ViewerTarget {
+  citation: Citation;
+}
+
+interface DocumentViewerProps {
+  document: Document;
+  target?: ViewerTarget;
+  onClose: () => void;
+}
+
+/** An occurrence of the find query: a range of a block's text, or for PDF a whole line of it. */
+interface FindMatch {
+  page: number;
+  block: number;
+  start: number;
+  end: number;
+  line?: number;
+}
+
+interface Highlights {
+  passage?: PassageLocation;
+  /** Find matches by page and block, with their position among all matches */
+  matches: Map<string, (FindMatch & { index: number })[]>;
+  currentMatch: number;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+// Pages within this distance outside the visible area are rendered ahead of scrolling
+const RENDER_MARGIN = '400px';
+
+const blockKey = (page: number, block: number) => `${page}:${block}`;
+
+function findMatches(document: ParsedDocument, query: string): FindMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const occurrences = (text: string) => {
+    const starts: number[] = [];
+    const haystack = text.toLowerCase();
+    for (let start = haystack.indexOf(needle); start !== -1; start = haystack.indexOf(needle, start + needle.length)) {
+      starts.push(start);
+    }
+    return starts;
+  };
+
+  return document.pages.flatMap(page => page.blocks.flatMap((block, blockIndex) => block.lines
+    // PDF text is highlighted line by line, since only lines have a position on the page
+    ? block.lines.flatMap((line, lineIndex) => occurrences(line.text).length > 0
+      ? [{ page: page.number, block: blockIndex, start: 0, end: 0, line: lineIndex }]
+      : [])
+    : occurrences(block.text).map(start => ({ page: page.number, block: blockIndex, start, end: start + needle.length }))
+  ));
+}
+
+/** Text with find matches marked; `offset` is where the text starts within its block. */
+const MarkedText = ({ text, offset = 0, matches = [], currentMatch }: {
+  text: string;
+  offset?: number;
+  matches?: (FindMatch & { index: number })[];
+  currentMatch: number;
+}) => {
+  const inText = matches.filter(match => match.start >= offset && match.end <= offset + text.length);
+  if (inText.length === 0) return <>{text}</>;
+
+  let position = 0;
+  return (
+    <>
+      {inText.map(match => {
+        const before = text.slice(position, match.start - offset);
+        position = match.end - offset;
+        return (
+          <Fragment key={match.index}>
+            {before}
+            <mark
+              className={match.index === currentMatch ? 'bg-orange-400 rounded-sm' : 'bg-yellow-200 rounded-sm'}
+              data-find-current={match.index === currentMatch || undefined}
+            >
+              {text.slice(match.start - offset, match.end - offset)}
+            </mark>
+          </Fragment>
+        );
+      })}
+      {text.slice(position)}
+    </>
+  );
+};
+
+const TextBlockView = ({ block, page, index, highlights }: {
+  block: TextBlock;
+  page: number;
+  index: number;
+  highlights: Highlights;
+}) => {
+  const isPassage = highlights.passage?.page === page && highlights.passage.blocks.includes(index);
+  const matches = highlights.matches.get(blockKey(page, index));
+  const className = isPassage ? 'bg-yellow-100 ring-2 ring-yellow-300 rounded-sm -mx-1 px-1' : '';
+  const passageProps = { 'data-passage': isPassage || undefined };
+
+  if (block.kind === 'table' && block.rows) {
+    // Cells are laid out in the block's text as tab-separated rows, which is what matches refer to
+    let offset = 0;
+    return (
+      <table {...passageProps} className={`w-full border-collapse text-[0.9em] ${className}`}>
+        <tbody>
+          {block.rows.map((cells, rowIndex) => (
+            <tr key={rowIndex}>
+              {cells.map((cell, cellIndex) => {
+                const cellOffset = offset;
+                offset += cell.length + 1;
+                return (
+                  <td key={cellIndex} className="border border-border px-2 py-1 align-top whitespace-pre-line">
+                    <MarkedText text={cell} offset={cellOffset} matches={matches} currentMatch={highlights.currentMatch} />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  const text = <MarkedText text={block.text} matches={matches} currentMatch={highlights.currentMatch} />;
+  if (block.kind === 'heading') {
+    const size = block.level === 1 ? 'text-[1.5em]' : block.level === 2 ? 'text-[1.25em]' : 'text-[1.1em]';
+    return <p {...passageProps} className={`font-bold mt-2 ${size} ${className}`}>{text}</p>;
+  }
+  if (block.kind === 'list-item') {
+    return <p {...passageProps} className={`whitespace-pre-line ${className}`} style={{ paddingLeft: `${(block.level ?? 0) * 1.5}em` }}>{text}</p>;
+  }
+  return <p {...passageProps} className={`whitespace-pre-line ${className}`}>{text}</p>;
+};
+
+/** Flowing formats have no layout of their own, so their blocks are shown as text, split at page breaks. */
+const TextPage = ({ page, showNumber, zoom, highlights }: {
+  page: ParsedPage;
+  showNumber: boolean;
+  zoom: number;
+  highlights: Highlights;
+}) => (
+  <div className="bg-white shadow-card rounded-sm p-8 space-y-3 leading-relaxed" style={{ fontSize: `${zoom}rem` }}>
+    {showNumber && <p className="text-xs text-muted-foreground text-right">Page {page.number}</p>}
+    {page.blocks.map((block, index) => (
+      <TextBlockView key={index} block={block} page={page.number} index={index} highlights={highlights} />
+    ))}
+  </div>
+);
+
+const Overlay = ({ box, zoom, className, ...props }: { box: BoundingBox; zoom: number; className: string; [data: `data-${string}`]: unknown }) => (
+  <div
+    {...props}
+    className={`absolute pointer-events-none ${className}`}
+    style={{ left: box.x * zoom, top: box.y * zoom, width: box.width * zoom, height: box.height * zoom }}
+  />
+);
+
+/** One PDF page, drawn once it nears the visible area, with highlights over the text they refer to. */
+const PdfPage = ({ pdf, page, zoom, highlights }: {
+  pdf: PDFDocumentProxy | null;
+  page: ParsedPage;
+  zoom: number;
+  highlights: Highlights;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isNearView, setIsNearView] = useState(false);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(([entry]) => setIsNearView(entry.isIntersecting), { rootMargin: RENDER_MARGIN });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!pdf || !isNearView) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+    pdf.getPage(page.number).then((pdfPage) => {
+      if (cancelled) return;
+      // Drawn at the screen's pixel density so text stays sharp on high-DPI displays
+      const pixelRatio = window.devicePixelRatio || 1;
+      const viewport = pdfPage.getViewport({ scale: zoom });
+      const canvas = canvasRef.current;
+      canvas.width = Math.floor(viewport.width * pixelRatio);
+      canvas.height = Math.floor(viewport.height * pixelRatio);
+      renderTask = pdfPage.render({
+        canvas,
+        viewport,
+        transform: pixelRatio === 1 ? undefined : [pixelRatio, 0, 0, pixelRatio, 0, 0],
+      });
+      return renderTask.promise;
+    }).catch((error) => {
+      if ((error as Error)?.name !== 'RenderingCancelledException') {
+        console.warn(`Could not render page ${page.number}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, isNearView, page.number, zoom]);
+
+  const passageBlocks = highlights.passage?.page === page.number ? highlights.passage.blocks : [];
+  return (
+    <div
+      ref={containerRef}
+      className="relative bg-white shadow-card mx-auto"
+      style={{ width: page.width * zoom, height: page.height * zoom }}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {passageBlocks.map((blockIndex, position) => page.blocks[blockIndex]?.box && (
+        <Overlay
+          key={`passage-${blockIndex}`}
+          box={page.blocks[blockIndex].box}
+          zoom={zoom}
+          className="bg-yellow-300/30 ring-2 ring-yellow-400 rounded-sm"
+          data-passage={position === 0 || undefined}
+        />
+      ))}
+      {page.blocks.flatMap((block, blockIndex) => (highlights.matches.get(blockKey(page.number, blockIndex)) ?? []).map(match => (
+        <Overlay
+          key={`match-${match.index}`}
+          box={block.lines[match.line]}
+          zoom={zoom}
+          className={match.index === highlights.currentMatch ? 'bg-orange-400/40' : 'bg-yellow-300/40'}
+          data-find-current={match.index === highlights.currentMatch || undefined}
+        />
+      )))}
+    </div>
+  );
+};
+
+/**
+ * Shows an uploaded document next to the answers, from the copy parsed in the
+ * browser: PDFs as rendered pages, other formats as their text. A cited
+ * passage is located by its quoted text, or failing that by its section, and
+ * highlighted. The contents list the document's clauses and headings.
+ */
+export const DocumentViewer = ({ document, target, onClose }: DocumentViewerProps) => {
+  const state = useParsedDocument(document.id);
+  const parsed = state?.document;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef(new Map<number, HTMLDivElement>());
+  const [zoom, setZoom] = useState(1);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [query, setQuery] = useState('');
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const [showContents, setShowContents] = useState(false);
+  // A section picked from the contents; replaces the cited passage as the highlight until the next citation
+  const [selected, setSelected] = useState<PassageLocation>();
+
+  const isPdf = parsed?.format === 'pdf';
+  const pageCount = parsed?.pages.length ?? 0;
+
+  useEffect(() => {
+    const file = DocumentParser.getFile(document.id);
+    if (!isPdf || !file) return;
+
+    let cancelled = false;
+    let loadingTask: ReturnType<typeof loadPdf> | null = null;
+    file.arrayBuffer()
+      .then((data) => {
+        if (cancelled) return null;
+        loadingTask = loadPdf(data);
+        return loadingTask.promise;
+      })
+      .then((loaded) => {
+        if (!cancelled && loaded) setPdf(loaded);
+      })
+      .catch((error) => {
+        if (!cancelled) setPdfError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      cancelled = true;
+      setPdf(null);
+      setPdfError(null);
+      loadingTask?.destroy();
+    };
+  }, [document.id, isPdf]);
+
+  const passage = useMemo(() => {
+    if (!target || !parsed) return undefined;
+    const { citation } = target;
+    const located = locatePassage(parsed, citation.snippet, citation.page);
+    if (located) return located;
+    // Failing the quote, the cited section shows where the answer came from
+    const section = findSection(parsed, citation);
+    return section ? { page: section.page, blocks: [section.block] } : undefined;
+  }, [target, parsed]);
+  const highlighted = selected ?? passage;
+  const sections = useMemo(() => parsed ? flattenSections(parsed.sections) : [], [parsed]);
+
+  const matches = useMemo(() => parsed ? findMatches(parsed, query) : [], [parsed, query]);
+  const highlights = useMemo<Highlights>(() => {
+    const byBlock = new Map<string, (FindMatch & { index: number })[]>();
+    matches.forEach((match, index) => {
+      const key = blockKey(match.page, match.block);
+      byBlock.set(key, [...(byBlock.get(key) ?? []), { ...match, index }]);
+    });
+    return { passage: highlighted, matches: byBlock, currentMatch };
+  }, [highlighted, matches, currentMatch]);
+
+  const scrollToMarked = (selector: string) => requestAnimationFrame(() => {
+    scrollRef.current?.querySelector(selector)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  });
+
+  useEffect(() => {
+    setSelected(undefined);
+  }, [target]);
+
+  useEffect(() => {
+    if (highlighted) {
+      scrollToMarked('[data-passage]');
+    } else if (target?.citation.page) {
+      // The quote was not found, but the cited page still narrows it down
+      pageRefs.current.get(target.citation.page)?.scrollIntoView({ block: 'start' });
+    }
+  }, [highlighted, target]);
+
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [query]);
+
+  useEffect(() => {
+    if (matches.length > 0) scrollToMarked('[data-find-current]');
+  }, [matches, currentMatch]);
+
+  useEffect(() => {
+    setPageInput(String(currentPage));
+  }, [currentPage]);
+
+  const goToPage = (page: number) => {
+    const clamped = Math.min(Math.max(page, 1), pageCount);
+    pageRefs.current.get(clamped)?.scrollIntoView({ block: 'start' });
+    setCurrentPage(clamped);
+  };
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    // The current page is the last one whose top has passed a third of the way down the view
+    const threshold = container.scrollTop + container.clientHeight / 3;
+    let page = 1;
+    pageRefs.current.forEach((element, number) => {
+      if (element.offsetTop <= threshold && number > page) page = number;
+    });
+    setCurrentPage(page);
+  };
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+  const stepMatch = (step: number) => setCurrentMatch(index => (index + step + matches.length) % matches.length);
+
+  const renderBody = () => {
+    if (!state) {
+      return <p className="p-6 text-sm text-muted-foreground">This document was not read in the browser, so it cannot be shown.</p>;
+    }
+    if (state.status === 'parsing') {
+      return (
+        <p className="p-6 text-sm text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Reading document… {Math.round(state.progress)}%
+        </p>
+      );
+    }
+    if (state.status === 'failed') {
+      return <p className="p-6 text-sm text-muted-foreground">The document cannot be shown: {state.error?.message}</p>;
+    }
+
+    return (
+      <div className="p-4 space-y-4">
+        {pdfError && <p className="text-sm text-destructive">Pages could not be drawn: {pdfError}</p>}
+        {parsed.pages.map(page => (
+          <div
+            key={page.number}
+            ref={(element) => {
+              if (element) pageRefs.current.set(page.number, element);
+              else pageRefs.current.delete(page.number);
+            }}
+          >
+            {isPdf
+              ? <PdfPage pdf={pdf} page={page} zoom={zoom} highlights={highlights} />
+              : <TextPage page={page} showNumber={pageCount > 1} zoom={zoom} highlights={highlights} />}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gradient-card">
+      <div className="flex items-center gap-3 px-4 py-3 bg-gradient-primary text-white">
+        <FileText className="h-5 w-5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold truncate">{document.name}</p>
+          {highlighted ? (
+            <p className="text-xs text-white/80 truncate">
+              {sectionLabelAt(parsed, highlighted) ?? (selected ? 'Selected section' : 'Cited passage')} · page {highlighted.page}
+            </p>
+          ) : target && (
+            <p className="text-xs text-white/80 truncate">The cited passage was not found in the document</p>
+          )}
+        </div>
+        <Button variant="ghost" size="icon" className="text-white hover:bg-white/20 hover:text-white" onClick={onClose} title="Close viewer">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {parsed && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border/50 bg-white/70">
+          <Button
+            variant={showContents ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-8 w-8"
+            disabled={sections.length === 0}
+            onClick={() => setShowContents(shown => !shown)}
+            title={sections.length > 0 ? 'Contents' : 'No clauses or headings found'}
+          >
+            <ListTree className="h-4 w-4" />
+          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={currentPage <= 1} onClick={() => goToPage(currentPage - 1)} title="Previous page">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <form
+              className="flex items-center gap-1 text-sm"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const page = parseInt(pageInput, 10);
+                if (Number.isFinite(page)) goToPage(page);
+              }}
+            >
+              <Input value={pageInput} onChange={(e) => setPageInput(e.target.value)} className="h-8 w-12 px-2 text-center" aria-label="Page" />
+              <span className="text-muted-foreground">/ {pageCount}</span>
+            </form>
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={currentPage >= pageCount} onClick={() => goToPage(currentPage + 1)} title="Next page">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={zoomIndex <= 0} onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])} title="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="text-sm w-12 text-center">{Math.round(zoom * 100)}%</span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={zoomIndex >= ZOOM_LEVELS.length - 1} onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])} title="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1 ml-auto">
+            <div className="relative">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && matches.length > 0) stepMatch(e.shiftKey ? -1 : 1);
+                }}
+                placeholder="Find in document"
+                className="h-8 w-44 pl-7"
+              />
+            </div>
+            {query.trim() && (
+              <span className="text-xs text-muted-foreground w-14 text-center">
+                {matches.length > 0 ? `${currentMatch + 1} of ${matches.length}` : 'No matches'}
+              </span>
+            )}
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={matches.length === 0} onClick={() => stepMatch(-1)} title="Previous match">
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" disabled={matches.length === 0} onClick={() => stepMatch(1)} title="Next match">
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        {showContents && sections.length > 0 && (
+          <nav className="w-56 shrink-0 overflow-y-auto border-r border-border/50 bg-white/70 py-2 text-sm" aria-label="Contents">
+            {sections.map(section => (
+              <button
+                key={section.id}
+                type="button"
+                className={`block w-full truncate text-left py-1 pr-2 hover:bg-accent/10 ${
+                  highlighted?.page === section.page && highlighted.blocks[0] === section.block ? 'bg-accent/10 font-medium' : ''
+                }`}
+                style={{ paddingLeft: `${0.5 + (section.level - 1) * 0.75}rem` }}
+                title={section.label}
+                onClick={() => setSelected({ page: section.page, blocks: [section.block] })}
+              >
+                {section.label}
+              </button>
+            ))}
+          </nav>
+        )}
+        <div ref={scrollRef} onScroll={handleScroll} className="relative flex-1 overflow-auto bg-muted/40">
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useLogin } from '@/hooks/use-session';
+import type { BackendProfile } from '@/services/ConfigService';
+import type { Credentials, Session } from '@/services/AuthService';
+import type { BackendError } from '@/services/errors';
+import { AlertTriangle, Loader2, LogIn } from 'lucide-react';
+
+interface LoginFormProps {
+  profile: BackendProfile;
+  /** Pre-fills the username, e.g. when an expired session is renewed */
+  username?: string;
+  onSuccess?: (session: Session) => void;
+}
+
+const passwordSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const apiKeySchema = z.object({
+  apiKey: z.string().trim().min(1, 'API key is required'),
+});
+
+interface LoginFormValues {
+  username: string;
+  password: string;
+  apiKey: string;
+}
+
+// API keys are not checked when signing in, so only a password can be rejected here
+const describeError = (error: BackendError) => {
+  if (error.kind === 'auth') {
+    return { title: 'Incorrect username or password', description: 'Check your credentials and try again.' };
+  }
+  return { title: error.title, description: error.hint };
+};
+
+export const LoginForm = ({ profile, username = '', onSuccess }: LoginFormProps) => {
+  const login = useLogin();
+  const usesPassword = profile.auth === 'password';
+
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(usesPassword ? passwordSchema : apiKeySchema),
+    defaultValues: { username, password: '', apiKey: '' },
+  });
+
+  const handleSubmit = (values: LoginFormValues) => {
+    const credentials: Credentials = usesPassword
+      ? { method: 'password', username: values.username, password: values.password }
+      : { method: 'api-key', apiKey: values.apiKey };
+
+    login.mutate(credentials, {
+      onSuccess: (session) => {
+        form.reset({ ...values, password: '', apiKey: '' });
+        onSuccess?.(session);
+      },
+    });
+  };
+
+  const error = login.error && describeError(login.error);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {usesPassword ? (
+          <>
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="username" autoFocus={!username} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" autoFocus={!!username} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        ) : (
+          <FormField
+            control={form.control}
+            name="apiKey"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>API key</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="off" autoFocus {...field} />
+                </FormControl>
+                <FormDescription>
+                  Sent as a bearer token and checked by your first request; kept only until this tab is closed
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{error.title}</AlertTitle>
+            <AlertDescription>{error.description}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button type="submit" disabled={login.isPending} className="w-full bg-gradient-primary text-white border-0">
+          {login.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+          Sign in
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle, DrawerTrigger } from '@/components/ui/drawer';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { useNetworkLog } from '@/hooks/use-network-log';
+import { NetworkLog, type NetworkEntry } from '@/services/NetworkLog';
+import { toCurl } from '@/lib/curl';
+import { toHar } from '@/lib/har';
+import { CheckCircle2, Copy, Download, Loader2, Network, Trash2, XCircle } from 'lucide-react';
+
+const statusClassName = (entry: NetworkEntry) => {
+  if (entry.state === 'failed' && entry.status === undefined) return 'text-destructive';
+  if (entry.status === undefined) return 'text-muted-foreground';
+  if (entry.status >= 400) return 'text-destructive';
+  return entry.status >= 300 ? 'text-yellow-600' : 'text-green-600';
+};
+
+const pathOf = (url: string) => {
+  try {
+    const { pathname, search } = new URL(url);
+    return pathname + search;
+  } catch {
+    return url;
+  }
+};
+
+const HeaderList = ({ headers }: { headers?: Record<string, string> }) => {
+  const entries = Object.entries(headers ?? {});
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No headers</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs font-mono">
+      {entries.map(([name, value]) => (
+        <div key={name} className="contents">
+          <dt className="text-muted-foreground">{name}</dt>
+          <dd className="break-all">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const Body = ({ body, emptyLabel }: { body?: string; emptyLabel: string }) =>
+  body === undefined || body === ''
+    ? <p className="text-sm text-muted-foreground">{emptyLabel}</p>
+    : <pre className="text-xs bg-muted rounded-md p-3 whitespace-pre-wrap break-all">{body}</pre>;
+
+const ValidationIcon = ({ entry }: { entry: NetworkEntry }) => {
+  if (!entry.validation) return null;
+  return entry.validation.valid
+    ? <CheckCircle2 className="h-3.5 w-3.5 text-green-600 shrink-0" aria-label="Matches the API contract" />
+    : <XCircle className="h-3.5 w-3.5 text-destructive shrink-0" aria-label="Violates the API contract" />;
+};
+
+const EntryDetails = ({ entry }: { entry: NetworkEntry }) => {
+  const { toast } = useToast();
+
+  const copyAsCurl = async () => {
+    try {
+      await navigator.clipboard.writeText(toCurl(entry));
+      toast({
+        title: "Copied",
+        description: "cURL command copied to clipboard",
+      });
+    } catch (error) {
+      // Clipboard access is refused outside secure contexts and when permission is denied
+      console.warn('Unable to copy cURL command:', error);
+      toast({
+        title: "Copy failed",
+        description: "The browser did not allow access to the clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 h-full">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-mono text-sm break-all">
+            <span className="font-semibold">{entry.method}</span> {entry.url}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            <span className={statusClassName(entry)}>
+              {entry.status !== undefined ? `${entry.status} ${entry.statusText}` : entry.state === 'failed' ? 'No response' : 'Pending'}
+            </span>
+            {' · '}{new Date(entry.startedAt).toLocaleTimeString()}
+            {entry.waitMs !== undefined && ` · headers after ${entry.waitMs} ms`}
+            {entry.durationMs !== undefined && ` · ${entry.durationMs} ms total`}
+          </p>
+          {entry.error && <p className="text-xs text-destructive mt-1">{entry.error}</p>}
+        </div>
+        <Button variant="outline" size="sm" onClick={copyAsCurl} className="shrink-0">
+          <Copy className="mr-2 h-4 w-4" />
+          Copy as cURL
+        </Button>
+      </div>
+
+      <Tabs defaultValue="response" className="flex flex-col min-h-0 flex-1">
+        <TabsList className="self-start">
+          <TabsTrigger value="request">Request</TabsTrigger>
+          <TabsTrigger value="response">Response</TabsTrigger>
+          <TabsTrigger value="validation" className="gap-1.5">
+            Validation
+            <ValidationIcon entry={entry} />
+          </TabsTrigger>
+        </TabsList>
+        <ScrollArea className="flex-1 min-h-0 mt-2">
+          <TabsContent value="request" className="space-y-4 mt-0">
+            <HeaderList headers={entry.requestHeaders} />
+            <Body body={entry.requestBody} emptyLabel="No request body" />
+          </TabsContent>
+          <TabsContent value="response" className="space-y-4 mt-0">
+            <HeaderList headers={entry.responseHeaders} />
+            <Body
+              body={entry.responseBody}
+              emptyLabel={entry.state === 'pending' ? 'Receiving…' : 'No response body'}
+            />
+            {entry.responseTruncated && (
+              <p className="text-xs text-muted-foreground">Only the beginning of this response was kept.</p>
+            )}
+          </TabsContent>
+          <TabsContent value="validation" className="mt-0">
+            {!entry.validation ? (
+              <p className="text-sm text-muted-foreground">
+                This response was not checked against the API contract, e.g. because the request failed.
+              </p>
+            ) : entry.validation.valid ? (
+              <p className="text-sm text-green-700">The response matches the API contract.</p>
+            ) : (
+              <ul className="list-disc pl-5 text-sm text-destructive space-y-1">
+                {entry.validation.issues.map(issue => <li key={issue} className="font-mono text-xs">{issue}</li>)}
+              </ul>
+            )}
+          </TabsContent>
+        </ScrollArea>
+      </Tabs>
+    </div>
+  );
+};
+
+/**
+ * A drawer listing every backend call made this session, with the request and
+ * raw response of each, for debugging answers without browser devtools.
+ */
+export const NetworkInspector = () => {
+  const entries = useNetworkLog();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const visible = entries.filter(entry => `${entry.method} ${entry.url} ${entry.status ?? ''}`.toLowerCase().includes(filter.toLowerCase()));
+  const selected = entries.find(entry => entry.id === selectedId) ?? visible[0];
+  const failures = entries.filter(entry => entry.state === 'failed' || entry.status >= 400 || entry.validation?.valid === false).length;
+
+  const exportHar = () => {
+    const url = URL.createObjectURL(new Blob([toHar(entries)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `intelliquery-${new Date().toISOString().replace(/[:.]/g, '-')}.har`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Drawer>
+      <DrawerTrigger asChild>
+        <Button variant="outline" className="bg-white/50 shadow-card" title="Inspect backend calls" aria-label="Network inspector">
+          <Network className="h-4 w-4 md:mr-2" />
+          <span className="hidden md:inline">Network</span>
+          {failures > 0 && <Badge variant="destructive" className="ml-2 px-1.5">{failures}</Badge>}
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent className="h-[85vh]">
+        <DrawerHeader className="flex flex-col md:flex-row md:items-end justify-between gap-3 text-left">
+          <div>
+            <DrawerTitle>Network inspector</DrawerTitle>
+            <DrawerDescription>
+              {entries.length} backend call{entries.length === 1 ? '' : 's'} this session · credentials are redacted
+            </DrawerDescription>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Filter by URL, method or status"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-64"
+            />
+            <Button variant="outline" onClick={exportHar} disabled={entries.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export HAR
+            </Button>
+            <Button variant="outline" onClick={() => NetworkLog.clear()} disabled={entries.length === 0}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+        </DrawerHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 px-4 pb-4 flex-1 min-h-0">
+          <ScrollArea className="md:col-span-2 border rounded-md min-h-0">
+            {visible.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">
+                {entries.length === 0 ? 'No backend calls yet' : 'No calls match the filter'}
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {visible.map(entry => (
+                  <li key={entry.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(entry.id)}
+                      className={`w-full flex items-center gap-2 px-3 py-2 text-left text-xs font-mono hover:bg-muted ${
+                        entry.id === selected?.id ? 'bg-muted' : ''
+                      }`}
+                    >
+                      <span className="w-12 shrink-0 font-semibold">{entry.method}</span>
+                      <span className="flex-1 truncate" title={entry.url}>{pathOf(entry.url)}</span>
+                      <ValidationIcon entry={entry} />
+                      <span className={`w-10 text-right shrink-0 ${statusClassName(entry)}`}>
+                        {entry.state === 'pending' && entry.status === undefined
+                          ? <Loader2 className="h-3.5 w-3.5 animate-spin inline" />
+                          : entry.status ?? 'ERR'}
+                      </span>
+                      <span className="w-16 text-right shrink-0 text-muted-foreground">
+                        {entry.durationMs !== undefined ? `${entry.durationMs} ms` : '…'}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+          <div className="md:col-span-3 min-h-0">
+            {selected
+              ? <EntryDetails entry={selected} />
+              : <p className="text-sm text-muted-foreground">Select a call to see its details</p>}
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
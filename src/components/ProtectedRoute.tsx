@@ -0,0 +1,55 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { LoginForm } from '@/components/LoginForm';
+import { useActiveProfile } from '@/hooks/use-config';
+import { useAuthState, useSession } from '@/hooks/use-session';
+import { AuthService } from '@/services/AuthService';
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+}
+
+/**
+ * Sends visitors who have not signed in to /login. When an existing session
+ * expires the page stays mounted behind a sign-in dialog, so typed questions
+ * and results are not lost.
+ */
+export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+  const profile = useActiveProfile();
+  const authState = useAuthState();
+  const session = useSession();
+  const location = useLocation();
+  const keyRejected = session?.method === 'api-key';
+
+  if (authState === 'signed-out') {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return (
+    <>
+      {children}
+      <Dialog open={authState === 'expired'}>
+        <DialogContent
+          className="max-w-md [&>button]:hidden"
+          onEscapeKeyDown={(event) => event.preventDefault()}
+          onInteractOutside={(event) => event.preventDefault()}
+        >
+          <DialogHeader>
+            <DialogTitle>{keyRejected ? 'API key rejected' : 'Session expired'}</DialogTitle>
+            <DialogDescription>
+              {keyRejected
+                ? `${profile.name} did not accept your API key. Enter another to continue where you left off.`
+                : `${profile.name} no longer accepts your credentials. Sign in again to continue where you left off.`}
+            </DialogDescription>
+          </DialogHeader>
+          <LoginForm profile={profile} username={session?.username} />
+          <Button variant="ghost" onClick={() => AuthService.logout(profile)}>
+            Sign out
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
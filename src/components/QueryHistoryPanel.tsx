@@ -0,0 +1,95 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useQueryHistory } from '@/hooks/use-query-history';
+import { QueryHistory } from '@/services/QueryHistory';
+import { AlertCircle, CloudOff, FileText, History, Trash2 } from 'lucide-react';
+
+/** Past analyses, including those replayed from the offline queue. */
+export const QueryHistoryPanel = () => {
+  const entries = useQueryHistory();
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card className="shadow-floating bg-gradient-card border-0 overflow-hidden">
+      <CardHeader className="bg-gradient-primary text-white">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-3">
+              <History className="h-6 w-6" />
+              Query History ({entries.length})
+            </CardTitle>
+            <p className="text-white/80 text-sm">Stored in this browser</p>
+          </div>
+          <Button variant="secondary" size="sm" onClick={() => QueryHistory.clear()}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Clear history
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        <Accordion type="multiple" className="space-y-2">
+          {entries.map(entry => {
+            const failed = entry.results.filter(result => result.status === 'failed').length;
+            const isMultiDocument = entry.documents.length > 1;
+
+            return (
+              <AccordionItem key={entry.id} value={entry.id} className="bg-white/70 border border-border/50 rounded-xl px-4">
+                <AccordionTrigger className="hover:no-underline gap-4">
+                  <div className="flex flex-1 items-center gap-3 min-w-0 text-left">
+                    <span className="text-sm text-muted-foreground shrink-0">
+                      {new Date(entry.completedAt).toLocaleString()}
+                    </span>
+                    <span className="font-semibold truncate">{entry.questions[0]}</span>
+                    {entry.questions.length > 1 && (
+                      <span className="text-sm text-muted-foreground shrink-0">+{entry.questions.length - 1}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {entry.source === 'replay' && (
+                      <Badge variant="secondary" className="flex items-center gap-1">
+                        <CloudOff className="h-3 w-3" />
+                        Replayed
+                      </Badge>
+                    )}
+                    {failed > 0 && <Badge variant="destructive">{failed} failed</Badge>}
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <FileText className="h-4 w-4 shrink-0" />
+                    {entry.documents.map(doc => doc.name).join(', ')}
+                  </p>
+                  {entry.results.map((result, index) => (
+                    <div key={index} className="space-y-1 border-l-4 border-primary/40 pl-3">
+                      <p className="font-semibold text-primary">
+                        {result.question}
+                        {isMultiDocument && (
+                          <span className="font-normal text-muted-foreground"> – {result.documents.map(doc => doc.name).join(', ')}</span>
+                        )}
+                      </p>
+                      {result.status === 'failed' ? (
+                        <p className="text-sm text-destructive flex items-center gap-2">
+                          <AlertCircle className="h-4 w-4 shrink-0" />
+                          {result.error || 'This batch failed.'}
+                        </p>
+                      ) : (
+                        <p className="text-sm leading-relaxed">{result.answer}</p>
+                      )}
+                    </div>
+                  ))}
+                  <Button variant="ghost" size="sm" onClick={() => QueryHistory.remove(entry.id)}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,31 +1,79 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Search, MessageSquare, Brain, Clock, FileText } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, Search, MessageSquare, Brain, Clock, FileText, AlertCircle, FlaskConical, Square, Database, CloudOff, HardDrive } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
-
-interface QueryResult {
-  question: string;
-  answer: string;
-  confidence: number;
-  sources: string[];
-  reasoning: string;
-  timestamp: Date;
-}
+import type { BatchProgress, BatchStatus, RetryNotice } from '@/services/DocumentService';
+import { useProcessQueries } from '@/hooks/use-process-queries';
+import { useActiveProfile, useConfig } from '@/hooks/use-config';
+import { QueryQueue } from '@/services/QueryQueue';
+import { LocalIndex } from '@/services/LocalIndex';
+import { requestNotificationPermission } from '@/lib/notifications';
+import { BackendError, ContractError } from '@/services/errors';
+import { ContractErrorDialog } from '@/components/ContractErrorDialog';
+import { CitationBadge } from '@/components/CitationBadge';
+import type { Document, DocumentRef } from '@/types/document';
+import type { Citation, QueryResult } from '@/types/query';
 
 interface QueryInterfaceProps {
   documentsReady: boolean;
-  onQuerySubmit: (queries: string[]) => Promise<QueryResult[]>;
+  /** Ready documents the user can choose to query; also used to name cited documents */
+  documents?: Document[];
+  /** Opens a cited passage in the document viewer */
+  onShowSource?: (document: Document, citation: Citation) => void;
 }
 
-export const QueryInterface = ({ documentsReady, onQuerySubmit }: QueryInterfaceProps) => {
+type GroupBy = 'question' | 'document';
+
+const batchStatusStyles: Record<BatchStatus, string> = {
+  queued: 'bg-muted',
+  running: 'bg-primary/60 animate-pulse',
+  complete: 'bg-primary',
+  failed: 'bg-destructive',
+  cancelled: 'bg-muted-foreground/40',
+};
+
+const pendingResult = (question: string, document: DocumentRef): QueryResult => ({
+  question,
+  answer: '',
+  confidence: 0,
+  sources: [],
+  documents: [document],
+  reasoning: '',
+  timestamp: new Date(),
+  status: 'streaming',
+  provenance: 'backend',
+});
+
+export const QueryInterface = ({ documentsReady, documents = [], onShowSource }: QueryInterfaceProps) => {
   const [queries, setQueries] = useState<string[]>(['']);
-  const [isProcessing, setIsProcessing] = useState(false);
   const [results, setResults] = useState<QueryResult[]>([]);
+  const [retryNotice, setRetryNotice] = useState<RetryNotice | null>(null);
+  const [batches, setBatches] = useState<BatchProgress[]>([]);
+  // Tracks deselected rather than selected documents so newly ready uploads are in scope by default
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [groupBy, setGroupBy] = useState<GroupBy>('question');
+  // Set when the last submission was queued for replay instead of failing
+  const [queued, setQueued] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const processQueries = useProcessQueries();
+  const isProcessing = processQueries.isPending;
+  // A cancellation is reported by toast and per-result badges, and a queued analysis by its own notice, not as an error
+  const error = processQueries.error?.kind === 'cancelled' || queued ? null : processQueries.error;
+  const profile = useActiveProfile();
+  const { demoMode } = useConfig();
   const { toast } = useToast();
 
+  // Leaving the page must not leave an analysis running in the background
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const addQuery = () => {
     setQueries(prev => [...prev, '']);
   };
@@ -40,6 +88,34 @@ export const QueryInterface = ({ documentsReady, onQuerySubmit }: QueryInterface
     }
   };
 
+  const scope = documents.filter(doc => !excludedIds.has(doc.id));
+
+  const toggleDocument = (documentId: string, included: boolean) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (included) {
+        next.delete(documentId);
+      } else {
+        next.add(documentId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllDocuments = (included: boolean) => {
+    setExcludedIds(included ? new Set() : new Set(documents.map(doc => doc.id)));
+  };
+
+  const enqueue = async (questions: string[]) => {
+    await QueryQueue.enqueue(questions, scope, profile);
+    requestNotificationPermission();
+    setQueued(true);
+    toast({
+      title: "Analysis queued",
+      description: "The backend is unreachable; this analysis will run automatically when it is back",
+    });
+  };
+
   const handleSubmit = async () => {
     const validQueries = queries.filter(q => q.trim());
     
@@ -61,25 +137,236 @@ export const QueryInterface = ({ documentsReady, onQuerySubmit }: QueryInterface
       return;
     }
 
-    setIsProcessing(true);
+    if (scope.length === 0) {
+      toast({
+        title: "No documents selected",
+        description: "Select at least one document to query",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setQueued(false);
+    // Documents read in this browser can still be answered from the local index while the backend is down
+    if (!demoMode && QueryQueue.isBackendUnavailable(profile) && !scope.every(doc => LocalIndex.has(doc.id))) {
+      await enqueue(validQueries);
+      return;
+    }
+
+    const placeholders = validQueries.flatMap(question => scope.map(doc => pendingResult(question, doc)));
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setResults([]);
+    setRetryNotice(null);
+    setBatches([]);
     try {
-      const results = await onQuerySubmit(validQueries);
+      const { results } = await processQueries.mutateAsync({
+        questions: validQueries,
+        documents: scope,
+        options: {
+          signal: abortController.signal,
+          // Streamed answers fill in their own card as they arrive
+          onResult: (index, result) => {
+            setResults(prev => {
+              const next = prev.length === placeholders.length ? [...prev] : [...placeholders];
+              next[index] = result;
+              return next;
+            });
+          },
+          onRetry: (notice) => {
+            setRetryNotice(notice);
+            // Answers from the failed attempt will be streamed again from scratch
+            setResults(prev => prev.map((result, index) =>
+              notice.resultIndices.includes(index) ? placeholders[index] : result
+            ));
+          },
+          onBatchProgress: setBatches,
+        },
+      });
       setResults(results);
+
+      const failedCount = results.filter(result => result.status === 'failed').length;
+      const cachedCount = results.filter(result => result.cached).length;
+      const fallbackCount = profile.adapter === 'offline' ? 0 : results.filter(result => result.provenance === 'local').length;
+      if (failedCount > 0) {
+        toast({
+          title: "Some questions could not be answered",
+          description: `${failedCount} of ${results.length} answers failed; the rest are shown below`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "Queries processed",
-        description: `${results.length} questions answered successfully`,
+        description: results.some(result => result.provenance === 'mock')
+          ? `${results.length} demo answers loaded – not from your documents`
+          : `${validQueries.length} questions answered across ${scope.length} document${scope.length === 1 ? '' : 's'}` +
+            (cachedCount > 0 ? ` (${cachedCount} from cache)` : '') +
+            (fallbackCount > 0 ? `; the backend was unreachable, so ${fallbackCount} were answered offline` : ''),
       });
-    } catch (error) {
+    } catch (err) {
+      const backendError = BackendError.from(err);
+
+      if (backendError.kind === 'cancelled') {
+        // Keep completed answers and show how far the interrupted ones got
+        setResults(prev => prev.map(result => result.status === 'streaming' ? { ...result, status: 'cancelled' } : result));
+        toast({
+          title: backendError.title,
+          description: backendError.hint,
+        });
+        return;
+      }
+
+      // Keep any answers that completed before the failure; drop half-streamed ones
+      setResults(prev => prev.filter(result => result.status !== 'streaming'));
+      if (!demoMode && backendError.outage) {
+        await enqueue(validQueries);
+        return;
+      }
       toast({
-        title: "Processing failed",
-        description: "Failed to process queries. Please try again.",
+        title: backendError.title,
+        description: backendError.hint,
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setRetryNotice(null);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const hasMockResults = results.some(result => result.provenance === 'mock');
+  const finishedBatches = batches.filter(batch => batch.status !== 'queued' && batch.status !== 'running').length;
+  const failedBatches = batches.filter(batch => batch.status === 'failed').length;
+
+  const getDocument = (documentId: string) =>
+    documents.find(doc => doc.serverId === documentId || doc.id === documentId);
+
+  // Group by the document each answer was attributed to, in the order documents first appear
+  const resultDocuments = results
+    .flatMap(result => result.documents)
+    .filter((doc, index, all) => all.findIndex(other => other.id === doc.id) === index);
+  const isMultiDocument = resultDocuments.length > 1;
+
+  const renderResult = (result: QueryResult, index: number) => (
+    <div key={index} className="bg-white/80 border border-border/50 rounded-xl p-6 space-y-4 shadow-card hover:shadow-elegant transition-all duration-300">
+      <div className="flex items-start justify-between gap-4">
+        <h4 className="font-bold text-lg text-primary leading-tight">{result.question}</h4>
+        <div className="flex items-center gap-2 shrink-0">
+          {groupBy === 'question' && isMultiDocument && result.documents.map(doc => (
+            <Badge key={doc.id} variant="outline" className="flex items-center gap-1 px-3 py-1 max-w-48">
+              <FileText className="h-3 w-3 shrink-0" />
+              <span className="truncate">{doc.name}</span>
+            </Badge>
+          ))}
+          {result.cached && (
+            <Badge variant="secondary" className="flex items-center gap-1 px-3 py-1 font-medium" title="Served from the local answer cache">
+              <Database className="h-3 w-3" />
+              Cached
+            </Badge>
+          )}
+          {result.provenance === 'mock' && (
+            <Badge className="px-3 py-1 font-medium bg-amber-400 text-amber-950 hover:bg-amber-400">
+              Demo
+            </Badge>
+          )}
+          {result.provenance === 'local' && (
+            <Badge variant="outline" className="flex items-center gap-1 px-3 py-1 font-medium" title="Quoted from the document by the in-browser search index">
+              <HardDrive className="h-3 w-3" />
+              Offline
+            </Badge>
+          )}
+          {result.status === 'streaming' ? (
+            <Badge variant="secondary" className="flex items-center gap-1 px-3 py-1 font-medium">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Answering...
+            </Badge>
+          ) : result.status === 'failed' ? (
+            <Badge variant="destructive" className="px-3 py-1 font-medium">
+              Failed
+            </Badge>
+          ) : result.status === 'cancelled' ? (
+            <Badge variant="outline" className="px-3 py-1 font-medium border-destructive/50 text-destructive">
+              Cancelled
+            </Badge>
+          ) : (
+            <Badge 
+              variant={result.confidence > 0.8 ? "default" : "secondary"}
+              className="px-3 py-1 font-medium"
+            >
+              {Math.round(result.confidence * 100)}% confidence
+            </Badge>
+          )}
+          <Badge variant="outline" className="flex items-center gap-1 px-3 py-1">
+            <Clock className="h-3 w-3" />
+            {result.timestamp.toLocaleTimeString()}
+          </Badge>
+        </div>
+      </div>
+      
+      <div className="bg-gradient-hero p-4 rounded-lg border-l-4 border-primary">
+        <p className="text-foreground leading-relaxed font-medium">
+          {result.status === 'streaming' && !result.answer ? 'Waiting for answer...' : result.answer}
+          {result.status === 'streaming' && (
+            <span className="ml-0.5 inline-block h-4 w-1.5 translate-y-0.5 animate-pulse bg-primary" />
+          )}
+        </p>
+        {result.status === 'cancelled' && (
+          <p className="text-sm text-muted-foreground mt-2 italic">
+            {result.answer ? 'Incomplete – the analysis was cancelled while this answer was arriving.' : 'Cancelled before an answer arrived.'}
+          </p>
+        )}
+        {result.status === 'failed' && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {result.error || 'This batch failed.'}
+          </p>
+        )}
+      </div>
+
+      {result.status !== 'streaming' && result.status !== 'cancelled' && result.status !== 'failed' && (
+        <div className="space-y-3">
+          <h5 className="font-semibold text-sm text-secondary flex items-center gap-2">
+            <Brain className="h-4 w-4" />
+            AI Reasoning:
+          </h5>
+          <p className="text-sm text-muted-foreground leading-relaxed bg-white/50 p-3 rounded-lg">
+            {result.reasoning}
+          </p>
+        </div>
+      )}
+
+      {result.sources.length > 0 && (
+        <div className="space-y-3">
+          <h5 className="font-semibold text-sm text-accent flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            Sources:
+          </h5>
+          <div className="flex flex-wrap gap-2">
+            {result.sources.map((citation, idx) => {
+              const cited = getDocument(citation.documentId);
+              return (
+                <CitationBadge
+                  key={idx}
+                  citation={citation}
+                  documentName={cited?.name}
+                  onShow={cited && onShowSource ? () => onShowSource(cited, citation) : undefined}
+                />
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   const sampleQueries = [
     "What is the grace period for premium payment?",
     "Does this policy cover maternity expenses?",
@@ -125,6 +412,40 @@ export const QueryInterface = ({ documentsReady, onQuerySubmit }: QueryInterface
               ))}
             </div>
 
+            {documents.length > 0 && (
+              <div className="space-y-2 rounded-lg border border-border/50 bg-white/50 p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    Documents in scope ({scope.length}/{documents.length})
+                  </span>
+                  {documents.length > 1 && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="scope-all"
+                        checked={scope.length === documents.length ? true : scope.length > 0 ? 'indeterminate' : false}
+                        onCheckedChange={(checked) => toggleAllDocuments(checked === true)}
+                        disabled={isProcessing}
+                      />
+                      <Label htmlFor="scope-all" className="text-sm text-muted-foreground">All</Label>
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {documents.map(doc => (
+                    <div key={doc.id} className="flex items-center gap-2 min-w-0">
+                      <Checkbox
+                        id={`scope-${doc.id}`}
+                        checked={!excludedIds.has(doc.id)}
+                        onCheckedChange={(checked) => toggleDocument(doc.id, checked === true)}
+                        disabled={isProcessing}
+                      />
+                      <Label htmlFor={`scope-${doc.id}`} className="text-sm truncate max-w-56">{doc.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {queries.map((query, index) => (
               <div key={index} className="flex gap-2">
                 <Textarea
@@ -156,14 +477,14 @@ export const QueryInterface = ({ documentsReady, onQuerySubmit }: QueryInterface
               </Button>
               <Button
                 onClick={handleSubmit}
-                disabled={!documentsReady || isProcessing}
+                disabled={!documentsReady || scope.length === 0 || isProcessing}
                 className="bg-gradient-primary shadow-glow hover:shadow-floating text-white border-0 px-8"
                 size="lg"
               >
                 {isProcessing ? (
                   <>
                     <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                    Analyzing...
+                    {retryNotice ? `Retrying (${retryNotice.attempt}/${retryNotice.maxAttempts})...` : 'Analyzing...'}
                   </>
                 ) : (
                   <>
@@ -172,7 +493,74 @@ export const QueryInterface = ({ documentsReady, onQuerySubmit }: QueryInterface
                   </>
                 )}
               </Button>
+              {isProcessing && (
+                <Button variant="outline" size="lg" onClick={handleCancel}>
+                  <Square className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
             </div>
+
+            {retryNotice && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 text-yellow-500" />
+                {retryNotice.error.title} – retrying ({retryNotice.attempt}/{retryNotice.maxAttempts})
+                {retryNotice.delayMs >= 1000 && ` in ${Math.round(retryNotice.delayMs / 1000)}s`}…
+              </p>
+            )}
+
+            {batches.length > 1 && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">Batches</span>
+                  <span className="text-muted-foreground">
+                    {finishedBatches}/{batches.length} finished
+                    {failedBatches > 0 && `, ${failedBatches} failed`}
+                  </span>
+                </div>
+                <Progress value={(finishedBatches / batches.length) * 100} className="h-2" />
+                <div className="flex flex-wrap gap-1">
+                  {batches.map(batch => (
+                    <span
+                      key={batch.index}
+                      title={`Batch ${batch.index + 1} · ${batch.document.name} · ${batch.resultIndices.length} questions · ${batch.status}${batch.error ? ` – ${batch.error.title}` : ''}`}
+                      className={`h-2 w-6 rounded-full ${batchStatusStyles[batch.status]}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {queued && (
+              <Alert className="bg-white/50">
+                <CloudOff className="h-4 w-4" />
+                <AlertTitle>Queued until the backend is reachable</AlertTitle>
+                <AlertDescription>
+                  The analysis will be replayed automatically and its answers added to Query History.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {error && (
+              <Alert variant="destructive" className="bg-destructive/5">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{error.title}</AlertTitle>
+                <AlertDescription>
+                  <p>{error.hint}</p>
+                  <p className="text-xs mt-1 opacity-80">{error.message}</p>
+                  {error instanceof ContractError && (
+                    <>
+                      <ul className="text-xs mt-2 list-disc pl-4">
+                        {error.issues.slice(0, 3).map((issue, index) => (
+                          <li key={index}>{issue}</li>
+                        ))}
+                      </ul>
+                      <ContractErrorDialog error={error} />
+                    </>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -189,55 +577,41 @@ export const QueryInterface = ({ documentsReady, onQuerySubmit }: QueryInterface
             </p>
           </CardHeader>
           <CardContent className="space-y-6 p-6">
-            {results.map((result, index) => (
-              <div key={index} className="bg-white/80 border border-border/50 rounded-xl p-6 space-y-4 shadow-card hover:shadow-elegant transition-all duration-300">
-                <div className="flex items-start justify-between gap-4">
-                  <h4 className="font-bold text-lg text-primary leading-tight">{result.question}</h4>
-                  <div className="flex items-center gap-2 shrink-0">
-                    <Badge 
-                      variant={result.confidence > 0.8 ? "default" : "secondary"}
-                      className="px-3 py-1 font-medium"
-                    >
-                      {Math.round(result.confidence * 100)}% confidence
-                    </Badge>
-                    <Badge variant="outline" className="flex items-center gap-1 px-3 py-1">
-                      <Clock className="h-3 w-3" />
-                      {result.timestamp.toLocaleTimeString()}
-                    </Badge>
-                  </div>
-                </div>
-                
-                <div className="bg-gradient-hero p-4 rounded-lg border-l-4 border-primary">
-                  <p className="text-foreground leading-relaxed font-medium">{result.answer}</p>
-                </div>
-
-                <div className="space-y-3">
-                  <h5 className="font-semibold text-sm text-secondary flex items-center gap-2">
-                    <Brain className="h-4 w-4" />
-                    AI Reasoning:
-                  </h5>
-                  <p className="text-sm text-muted-foreground leading-relaxed bg-white/50 p-3 rounded-lg">
-                    {result.reasoning}
-                  </p>
-                </div>
-
-                {result.sources.length > 0 && (
-                  <div className="space-y-3">
-                    <h5 className="font-semibold text-sm text-accent flex items-center gap-2">
-                      <FileText className="h-4 w-4" />
-                      Sources:
-                    </h5>
-                    <div className="flex flex-wrap gap-2">
-                      {result.sources.map((source, idx) => (
-                        <Badge key={idx} variant="outline" className="px-3 py-1 bg-white/70">
-                          {source}
-                        </Badge>
-                      ))}
-                    </div>
-                  </div>
-                )}
+            {hasMockResults && (
+              <Alert className="border-2 border-amber-400 bg-amber-50 text-amber-900 [&>svg]:text-amber-600">
+                <FlaskConical className="h-5 w-5" />
+                <AlertTitle className="font-bold">Demo answers – not from your documents</AlertTitle>
+                <AlertDescription>
+                  These are canned sample answers about the HackRx sample policy. Turn off demo mode or switch backends in Settings to analyze your own documents.
+                </AlertDescription>
+              </Alert>
+            )}
+            {isMultiDocument && (
+              <div className="flex items-center gap-3 text-sm">
+                <span className="font-medium">Group by:</span>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={groupBy}
+                  onValueChange={(value) => value && setGroupBy(value as GroupBy)}
+                >
+                  <ToggleGroupItem value="question">Question</ToggleGroupItem>
+                  <ToggleGroupItem value="document">Document</ToggleGroupItem>
+                </ToggleGroup>
               </div>
-            ))}
+            )}
+            {groupBy === 'document' && isMultiDocument
+              ? resultDocuments.map(doc => (
+                <div key={doc.id} className="space-y-4">
+                  <h4 className="font-semibold text-accent flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    {doc.name}
+                  </h4>
+                  {results.filter(result => result.documents.some(other => other.id === doc.id)).map(renderResult)}
+                </div>
+              ))
+              : results.map(renderResult)}
           </CardContent>
         </Card>
       )}
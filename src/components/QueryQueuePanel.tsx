@@ -0,0 +1,112 @@
+import { useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { useConfig } from '@/hooks/use-config';
+import { useQueryQueue } from '@/hooks/use-query-queue';
+import { QueryQueue, type QueuedQueryStatus } from '@/services/QueryQueue';
+import { notifyInBackground } from '@/lib/notifications';
+import { ArrowDown, ArrowUp, CloudOff, Loader2, RotateCcw, X } from 'lucide-react';
+
+const statusBadges: Record<QueuedQueryStatus, { label: string; variant: 'secondary' | 'outline' | 'destructive' }> = {
+  queued: { label: 'Waiting', variant: 'outline' },
+  running: { label: 'Replaying', variant: 'secondary' },
+  failed: { label: 'Failed', variant: 'destructive' },
+};
+
+/**
+ * Analyses waiting for the backend to come back. Items can be reordered,
+ * retried after a failure or cancelled; completed replays are announced.
+ */
+export const QueryQueuePanel = () => {
+  const items = useQueryQueue();
+  const { profiles } = useConfig();
+  const { toast } = useToast();
+
+  useEffect(() => QueryQueue.onReplayed(({ entry }) => {
+    const failed = entry.results.filter(result => result.status === 'failed').length;
+    const title = failed > 0 ? 'Queued analysis finished with failures' : 'Queued analysis completed';
+    const description = `${entry.questions.length} question${entry.questions.length === 1 ? '' : 's'} about ` +
+      `${entry.documents.map(doc => doc.name).join(', ')} – see Query History`;
+
+    toast({ title, description, variant: failed > 0 ? 'destructive' : 'default' });
+    notifyInBackground(title, description);
+  }), [toast]);
+
+  if (items.length === 0) return null;
+
+  const profileName = (profileId: string) => profiles.find(profile => profile.id === profileId)?.name ?? profileId;
+
+  return (
+    <Card className="shadow-floating bg-gradient-card border-0 overflow-hidden">
+      <CardHeader className="bg-gradient-accent text-white">
+        <CardTitle className="flex items-center gap-3">
+          <CloudOff className="h-6 w-6" />
+          Queued Analyses ({items.length})
+        </CardTitle>
+        <p className="text-white/80 text-sm">
+          Submitted while the backend was unreachable; they run automatically, top first, once it is back
+        </p>
+      </CardHeader>
+      <CardContent className="p-6">
+        <ol className="space-y-3">
+          {items.map((item, index) => (
+            <li key={item.id} className="flex items-start gap-4 p-4 bg-white/70 border border-border/50 rounded-xl shadow-card">
+              <div className="flex flex-col gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => QueryQueue.move(item.id, -1)}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => QueryQueue.move(item.id, 1)}
+                  disabled={index === items.length - 1}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="font-semibold truncate" title={item.questions.join('\n')}>
+                  {item.questions[0]}
+                  {item.questions.length > 1 && (
+                    <span className="font-normal text-muted-foreground"> +{item.questions.length - 1} more</span>
+                  )}
+                </p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {item.documents.map(doc => doc.name).join(', ')} · {profileName(item.profileId)} · queued {new Date(item.enqueuedAt).toLocaleTimeString()}
+                  {item.attempts > 0 && ` · ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}`}
+                </p>
+                {item.lastError && <p className="text-sm text-destructive">{item.lastError}</p>}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant={statusBadges[item.status].variant} className="flex items-center gap-1">
+                  {item.status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {statusBadges[item.status].label}
+                </Badge>
+                {item.status === 'failed' && (
+                  <Button variant="outline" size="sm" onClick={() => QueryQueue.retry(item.id)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Retry
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" onClick={() => QueryQueue.cancel(item.id)} aria-label="Cancel">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
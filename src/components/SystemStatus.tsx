@@ -1,46 +1,71 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
-import { Activity, Database, Zap, Clock, CheckCircle, AlertTriangle } from 'lucide-react';
+import { UPTIME_WINDOW_MS, type HealthSnapshot, type HealthState } from '@/services/HealthMonitor';
+import { Activity, Zap, Clock, CheckCircle, AlertTriangle, KeyRound, Loader2 } from 'lucide-react';
 
 interface SystemStatusProps {
   documentsProcessed: number;
   totalDocuments: number;
   lastQueryTime?: number;
-  systemHealth: 'excellent' | 'good' | 'warning' | 'error';
+  /** Retries made across all queries this session */
+  totalRetries?: number;
+  /** Attempts used by the most recent query, including the first */
+  lastQueryAttempts?: number;
+  /** Backend health history for the active profile */
+  health: HealthSnapshot;
 }
 
+const healthLabels: Record<HealthState, string> = {
+  unknown: 'Checking',
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  unauthorized: 'Unauthorized',
+  down: 'Down',
+};
+
+const sampleColors: Record<Exclude<HealthState, 'unknown'>, string> = {
+  healthy: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  unauthorized: 'bg-orange-500',
+  down: 'bg-destructive',
+};
+
+/** Checks shown in the uptime strip, oldest on the left */
+const HISTORY_BARS = 30;
+
+const formatUptime = (uptime?: number) => uptime === undefined ? '--' : `${(uptime * 100).toFixed(1)}%`;
+
 export const SystemStatus = ({ 
   documentsProcessed, 
   totalDocuments, 
   lastQueryTime,
-  systemHealth 
+  totalRetries = 0,
+  lastQueryAttempts,
+  health
 }: SystemStatusProps) => {
   const getHealthIcon = () => {
-    switch (systemHealth) {
-      case 'excellent':
-      case 'good':
+    switch (health.state) {
+      case 'unknown':
+        return <Loader2 className="h-4 w-4 text-muted-foreground animate-spin" />;
+      case 'healthy':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
-      case 'warning':
+      case 'degraded':
         return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
-      case 'error':
+      case 'unauthorized':
+        return <KeyRound className="h-4 w-4 text-orange-500" />;
+      case 'down':
         return <AlertTriangle className="h-4 w-4 text-destructive" />;
     }
   };
 
-  const getHealthColor = () => {
-    switch (systemHealth) {
-      case 'excellent':
-        return 'bg-green-500';
-      case 'good':
-        return 'bg-blue-500';
-      case 'warning':
-        return 'bg-yellow-500';
-      case 'error':
-        return 'bg-destructive';
-    }
+  const getHealthDescription = () => {
+    const { latest } = health;
+    if (!latest) return 'Contacting backend...';
+    if (latest.state === 'healthy') return `Responding in ${latest.latencyMs}ms`;
+    return latest.detail;
   };
 
+  const recentSamples = health.samples.slice(0, HISTORY_BARS).reverse();
+
   const processingProgress = totalDocuments > 0 ? (documentsProcessed / totalDocuments) * 100 : 0;
 
   return (
@@ -61,14 +86,13 @@ export const SystemStatus = ({
               {getHealthIcon()}
             </div>
             <div className="text-2xl font-bold mb-2 text-foreground">
-              {systemHealth.charAt(0).toUpperCase() + systemHealth.slice(1)}
+              {healthLabels[health.state]}
             </div>
-            <div className="text-sm text-muted-foreground font-medium">System Health</div>
+            <div className="text-sm text-muted-foreground font-medium">Backend Health</div>
             <div className="flex items-center justify-center gap-1 mt-2">
-              <Activity className="h-4 w-4 text-muted-foreground" />
-              <span className="text-xs text-muted-foreground">
-                {systemHealth === 'excellent' ? 'All systems operational' : 
-                 systemHealth === 'good' ? 'Processing documents' : 'Waiting for documents'}
+              <Activity className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="text-xs text-muted-foreground truncate" title={getHealthDescription()}>
+                {getHealthDescription()}
               </span>
             </div>
           </div>
@@ -96,19 +120,37 @@ export const SystemStatus = ({
               <Zap className="h-4 w-4 text-accent" />
               <span className="text-xs text-muted-foreground">
                 {lastQueryTime ? 'Last analysis' : 'No queries yet'}
+                {lastQueryAttempts > 1 && ` · ${lastQueryAttempts} attempts`}
               </span>
             </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {totalRetries} {totalRetries === 1 ? 'retry' : 'retries'} this session
+            </div>
           </div>
           
           <div className="text-center p-4 bg-white/70 rounded-xl shadow-card hover:shadow-elegant transition-all duration-300">
-            <div className="text-3xl font-bold text-secondary mb-2">99.9%</div>
-            <div className="text-sm text-muted-foreground font-medium">System Uptime</div>
+            <div className="text-3xl font-bold text-secondary mb-2">{formatUptime(health.sessionUptime)}</div>
+            <div className="text-sm text-muted-foreground font-medium">Backend Uptime</div>
             <div className="flex items-center justify-center gap-1 mt-2">
               <Clock className="h-4 w-4 text-secondary" />
               <span className="text-xs text-muted-foreground">
-                High availability
+                {health.samples.length > 0
+                  ? `${formatUptime(health.windowUptime)} last ${UPTIME_WINDOW_MS / 60000} min`
+                  : 'No checks yet'}
+                {health.averageLatencyMs !== undefined && ` · avg ${health.averageLatencyMs}ms`}
               </span>
             </div>
+            {recentSamples.length > 0 && (
+              <div className="flex items-end justify-center gap-0.5 h-4 mt-2">
+                {recentSamples.map(sample => (
+                  <span
+                    key={sample.checkedAt}
+                    title={`${new Date(sample.checkedAt).toLocaleTimeString()} – ${healthLabels[sample.state]}`}
+                    className={`w-1 h-full rounded-sm ${sampleColors[sample.state]}`}
+                  />
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,37 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useActiveProfile } from '@/hooks/use-config';
+import { HealthMonitor, type HealthSample, type HealthSnapshot } from '@/services/HealthMonitor';
+import type { BackendError } from '@/services/errors';
+import type { BackendProfile } from '@/services/ConfigService';
+
+const DEFAULT_INTERVAL_MS = 30000;
+
+const subscribe = (onChange: () => void) => HealthMonitor.subscribe(onChange);
+
+export const backendHealthKey = (profile: BackendProfile) =>
+  ['backend-health', profile.id, profile.adapter, profile.apiBaseUrl] as const;
+
+/**
+ * Periodically probes the active profile's backend. Every probe is recorded
+ * by HealthMonitor, so an unreachable backend is data rather than an error.
+ */
+export function useBackendHealth({ refetchInterval = DEFAULT_INTERVAL_MS }: { refetchInterval?: number } = {}) {
+  const profile = useActiveProfile();
+
+  return useQuery<HealthSample, BackendError>({
+    queryKey: backendHealthKey(profile),
+    queryFn: ({ signal }) => HealthMonitor.check(profile, signal),
+    refetchInterval,
+    // Keep probing while the tab is hidden so uptime covers the whole session
+    refetchIntervalInBackground: true,
+    retry: false,
+  });
+}
+
+/** Uptime and latency history of the active profile's backend. */
+export function useHealthHistory(): HealthSnapshot {
+  const profile = useActiveProfile();
+  const getSnapshot = useCallback(() => HealthMonitor.getSnapshot(profile), [profile]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { ConfigService, type AppConfig, type ConfiguredProfile } from '@/services/ConfigService';
+
+const subscribe = (onChange: () => void) => ConfigService.subscribe(onChange);
+
+export function useConfig(): AppConfig {
+  return useSyncExternalStore(subscribe, () => ConfigService.getConfig());
+}
+
+export function useActiveProfile(): ConfiguredProfile {
+  const config = useConfig();
+  return config.profiles.find(profile => profile.id === config.activeProfileId) || config.profiles[0];
+}
@@ -0,0 +1,39 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useActiveProfile } from '@/hooks/use-config';
+import { UploadService, type DocumentStatusUpdate, type UploadedDocument, type UploadOptions } from '@/services/UploadService';
+
+const DEFAULT_POLL_INTERVAL_MS = 1500;
+
+export const documentStatusKey = (profileId: string, documentId: string) =>
+  ['document-status', profileId, documentId] as const;
+
+export interface UploadDocumentVariables extends UploadOptions {
+  file: File;
+}
+
+export function useUploadDocument() {
+  return useMutation<UploadedDocument, Error, UploadDocumentVariables>({
+    mutationFn: ({ file, ...options }) => UploadService.uploadDocument(file, options),
+  });
+}
+
+/**
+ * Polls a document's server-side processing status until it reaches a
+ * terminal state ('ready' or 'error').
+ */
+export function useDocumentStatus(
+  documentId: string | undefined,
+  { enabled = true, intervalMs = DEFAULT_POLL_INTERVAL_MS }: { enabled?: boolean; intervalMs?: number } = {}
+) {
+  const profile = useActiveProfile();
+
+  return useQuery<DocumentStatusUpdate, Error>({
+    queryKey: documentStatusKey(profile.id, documentId),
+    queryFn: ({ signal }) => UploadService.getDocumentStatus(documentId, signal),
+    enabled: enabled && Boolean(documentId),
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'ready' || status === 'error' ? false : intervalMs;
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { NetworkLog, type NetworkEntry } from '@/services/NetworkLog';
+
+const subscribe = (onChange: () => void) => NetworkLog.subscribe(onChange);
+
+/** Backend calls made during this session, newest first. */
+export function useNetworkLog(): NetworkEntry[] {
+  return useSyncExternalStore(subscribe, () => NetworkLog.getEntries());
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { DocumentParser, type ParseState } from '@/services/DocumentParser';
+
+const subscribe = (onChange: () => void) => DocumentParser.subscribe(onChange);
+
+/** In-browser parse state of a document; undefined until it is parsed, or for unsupported types. */
+export function useParsedDocument(documentId: string | undefined): ParseState | undefined {
+  return useSyncExternalStore(subscribe, () => documentId ? DocumentParser.getState(documentId) : undefined);
+}
@@ -0,0 +1,59 @@
+import { useMutation, useMutationState } from '@tanstack/react-query';
+import { ConfigService } from '@/services/ConfigService';
+import { DocumentService, type ProcessQueriesOptions } from '@/services/DocumentService';
+import { QueryHistory } from '@/services/QueryHistory';
+import { BackendError } from '@/services/errors';
+import type { Document } from '@/types/document';
+import type { QueryResult } from '@/types/query';
+
+export const processQueriesKey = ['process-queries'] as const;
+
+export interface ProcessQueriesVariables {
+  questions: string[];
+  documents: Document[];
+  options?: ProcessQueriesOptions;
+}
+
+export interface ProcessQueriesData {
+  results: QueryResult[];
+  durationMs: number;
+}
+
+/**
+ * Runs an analysis and adds it to the query history. Retries happen inside
+ * DocumentService with the profile's backoff policy, so the mutation itself is
+ * never retried.
+ */
+export function useProcessQueries() {
+  return useMutation<ProcessQueriesData, BackendError, ProcessQueriesVariables>({
+    mutationKey: processQueriesKey,
+    mutationFn: async ({ questions, documents, options }) => {
+      const startedAt = Date.now();
+      try {
+        const results = await DocumentService.processQueries(questions, documents, options);
+        // Demo answers say nothing about the user's documents, so they are not kept
+        if (!results.some(result => result.provenance === 'mock')) {
+          QueryHistory.add({
+            questions,
+            documents: documents.map(({ id, name }) => ({ id, name })),
+            results,
+            profileId: ConfigService.getActiveProfile().id,
+            source: 'live',
+          });
+        }
+        return { results, durationMs: Date.now() - startedAt };
+      } catch (error) {
+        throw BackendError.from(error);
+      }
+    },
+  });
+}
+
+/** Duration of the most recent successful analysis, wherever it was started. */
+export function useLastQueryDuration(): number | undefined {
+  const durations = useMutationState({
+    filters: { mutationKey: processQueriesKey, status: 'success' },
+    select: (mutation) => (mutation.state.data as ProcessQueriesData).durationMs,
+  });
+  return durations[durations.length - 1];
+}
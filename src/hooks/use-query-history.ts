@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { QueryHistory, type QueryHistoryEntry } from '@/services/QueryHistory';
+
+const subscribe = (onChange: () => void) => QueryHistory.subscribe(onChange);
+
+/** Completed analyses, newest first. */
+export function useQueryHistory(): QueryHistoryEntry[] {
+  return useSyncExternalStore(subscribe, () => QueryHistory.getEntries());
+}
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { QueryQueue, type QueuedQuery } from '@/services/QueryQueue';
+
+const subscribe = (onChange: () => void) => QueryQueue.subscribe(onChange);
+
+/** Analyses waiting for the backend, in replay order. */
+export function useQueryQueue(): QueuedQuery[] {
+  return useSyncExternalStore(subscribe, () => QueryQueue.getItems());
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { RequestMetrics, type RequestMetricsSnapshot } from '@/services/RequestMetrics';
+
+const subscribe = (onChange: () => void) => RequestMetrics.subscribe(onChange);
+
+export function useRequestMetrics(): RequestMetricsSnapshot {
+  return useSyncExternalStore(subscribe, () => RequestMetrics.getSnapshot());
+}
@@ -0,0 +1,31 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useActiveProfile } from '@/hooks/use-config';
+import { AuthService, type AuthState, type Credentials, type Session } from '@/services/AuthService';
+import type { BackendError } from '@/services/errors';
+
+const subscribe = (onChange: () => void) => AuthService.subscribe(onChange);
+
+/** The active profile's session, if anyone has signed in to it in this tab. */
+export function useSession(): Session | undefined {
+  const profile = useActiveProfile();
+  const getSnapshot = useCallback(() => AuthService.getSession(profile), [profile]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export function useAuthState(): AuthState {
+  const profile = useActiveProfile();
+  const getSnapshot = useCallback(() => AuthService.getAuthState(profile), [profile]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/** Signs in to the active profile and re-checks its health with the new token. */
+export function useLogin() {
+  const profile = useActiveProfile();
+  const queryClient = useQueryClient();
+
+  return useMutation<Session, BackendError, Credentials>({
+    mutationFn: (credentials) => AuthService.login(profile, credentials),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['backend-health'] }),
+  });
+}
@@ -0,0 +1,44 @@
+/** Splits items into consecutive chunks of at most `size` items. */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Runs `task` for every item with at most `limit` tasks in flight, and settles
+ * each one independently so a failure never discards the others' results.
+ * Results keep the order of `items`. Once `signal` aborts, tasks that have not
+ * started yet are rejected with an AbortError instead of being run.
+ */
+export async function mapSettled<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        results[index] = { status: 'rejected', reason: new DOMException('Aborted', 'AbortError') };
+        continue;
+      }
+
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,28 @@
+import type { NetworkEntry } from '@/services/NetworkLog';
+
+const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * A shell command that repeats a logged request. Credentials were redacted
+ * when the request was logged, so bearer tokens are read from $TOKEN instead.
+ */
+export function toCurl(entry: NetworkEntry): string {
+  const parts = [`curl -X ${entry.method} ${quote(entry.url)}`];
+
+  Object.entries(entry.requestHeaders).forEach(([name, value]) => {
+    parts.push(value.includes('[redacted]') && name.toLowerCase() === 'authorization'
+      ? `-H "${name}: Bearer $TOKEN"`
+      : `-H ${quote(`${name}: ${value}`)}`);
+  });
+
+  if (entry.requestBody !== undefined) {
+    if (entry.requestBodyType === 'form-data') {
+      // File fields were logged as "name=@file.pdf (type, size)"; curl uploads the local file of that name
+      entry.requestBody.split('\n').forEach(field => parts.push(`-F ${quote(field.replace(/^([^=]+=@.*?) \([^)]*\)$/, '$1'))}`));
+    } else {
+      parts.push(`--data-raw ${quote(entry.requestBody)}`);
+    }
+  }
+
+  return parts.join(' \\\n  ');
+}
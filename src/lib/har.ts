@@ -0,0 +1,73 @@
+import type { NetworkEntry } from '@/services/NetworkLog';
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+const toHarHeaders = (headers: Record<string, string> = {}): HarHeader[] =>
+  Object.entries(headers).map(([name, value]) => ({ name, value }));
+
+const headerValue = (headers: Record<string, string> = {}, name: string) =>
+  Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+
+function toHarEntry(entry: NetworkEntry) {
+  const url = new URL(entry.url);
+  const durationMs = entry.durationMs ?? 0;
+  const waitMs = entry.waitMs ?? durationMs;
+
+  return {
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: durationMs,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.requestHeaders),
+      queryString: Array.from(url.searchParams, ([name, value]) => ({ name, value })),
+      ...(entry.requestBody !== undefined && {
+        postData: {
+          mimeType: entry.requestBodyType === 'form-data'
+            ? 'multipart/form-data'
+            : headerValue(entry.requestHeaders, 'content-type') ?? 'text/plain',
+          text: entry.requestBody,
+        },
+      }),
+      headersSize: -1,
+      bodySize: entry.requestBody?.length ?? 0,
+    },
+    response: {
+      // HAR uses status 0 for requests that never got a response
+      status: entry.status ?? 0,
+      statusText: entry.statusText ?? entry.error ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.responseHeaders),
+      content: {
+        size: entry.responseBody?.length ?? 0,
+        mimeType: headerValue(entry.responseHeaders, 'content-type') ?? 'application/octet-stream',
+        ...(entry.responseBody !== undefined && { text: entry.responseBody }),
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: waitMs, receive: Math.max(durationMs - waitMs, 0) },
+    ...(entry.error && { comment: entry.error }),
+    // Custom fields are allowed in HAR when prefixed with an underscore
+    ...(entry.validation && { _validation: entry.validation }),
+  };
+}
+
+/** Serializes logged calls as a HAR 1.2 archive, oldest first, for browser devtools and HAR viewers. */
+export function toHar(entries: NetworkEntry[]): string {
+  return JSON.stringify({
+    log: {
+      version: '1.2',
+      creator: { name: 'IntelliQuery', version: '1.0' },
+      entries: [...entries].sort((a, b) => a.startedAt - b.startedAt).map(toHarEntry),
+    },
+  }, null, 2);
+}
@@ -0,0 +1,17 @@
+/** Asks once for permission to show system notifications, if the user has not decided yet. */
+export function requestNotificationPermission(): void {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+}
+
+/**
+ * Shows a system notification while the page is in the background; in the
+ * foreground a toast is enough.
+ */
+export function notifyInBackground(title: string, body: string): void {
+  if (document.visibilityState === 'visible' || !('Notification' in window) || Notification.permission !== 'granted') {
+    return;
+  }
+  new Notification(title, { body, icon: '/favicon.ico' });
+}
@@ -0,0 +1,208 @@
+import type { DocumentSection, ParsedPage, SectionKind, TextBlock } from '@/types/parsedDocument';
+import { listMarker } from './markers';
+
+interface Candidate {
+  kind: SectionKind;
+  /** Number as printed, without enclosing clauses' numbers */
+  number?: string;
+  title: string;
+  /** Nesting order: a section closes every open section of the same or a higher rank */
+  rank: number;
+  /** How the label starts, e.g. "Section 4.2", "Part II" or "Schedule A" */
+  prefix?: string;
+}
+
+interface OpenSection {
+  section: DocumentSection;
+  rank: number;
+  /** Full number of the clause, for numbering its sub-clauses */
+  clause?: string;
+  /** Letter of the last lettered sub-clause directly below, to tell "(i)" after "(h)" from roman "(i)" */
+  lastLetter?: string;
+  /** Label prefix, e.g. "Schedule A", to qualify the clauses of a schedule */
+  prefix?: string;
+}
+
+// Ranks, outermost first; headings take 2-7 by level and numbered clauses 10 plus their depth
+const RANK_SCHEDULE = 0;
+const RANK_DIVISION = 1;
+const RANK_LETTER = 20;
+const RANK_ROMAN = 21;
+const RANK_DEFINITION = 30;
+
+// Blocks up to this many words can be headings such as "Schedule A – Benefits"; longer ones are body text
+const HEADING_MAX_WORDS = 12;
+// Titles taken from the start of an untitled clause
+const LEAD_MAX_WORDS = 6;
+
+const SEPARATOR = String.raw`[.:]?\s*(?:[–—-]\s*)?`;
+const SCHEDULE = new RegExp(String.raw`^(schedule|annexure|annex|appendix|exhibit)\s+([a-z]{1,2}|\d{1,3}|[ivxlc]{1,6})\b${SEPARATOR}(.*)$`, 'i');
+const DIVISION = new RegExp(String.raw`^(part|chapter)\s+([a-z]|\d{1,3}|[ivxlc]{1,6})\b${SEPARATOR}(.*)$`, 'i');
+const NAMED_CLAUSE = new RegExp(String.raw`^(section|article|clause)\s+(\d{1,3}(?:\.\d{1,3})*|[ivxlc]{1,6})\b${SEPARATOR}(.*)$`, 'i');
+// "4.", "4.2", "4.2.1." and, in headings only, a bare "4"
+const NUMBERED = /^(\d{1,3}(?:\.\d{1,3})*)(\.?)\s+(\S.*)$/;
+const SUB_CLAUSE = /^\(?([a-z]{1,2}|[ivxlc]{1,6})\)\s+(\S.*)$/;
+const ROMAN = /^[ivxlc]+$/;
+const QUOTED_TERM = /^["“‘']([^"”’']{1,60})["”’']\s*(?:\([^)]*\)\s*)?(?:means|shall mean|refers to|shall refer to|includes|shall include|is defined as|has the meaning)\b/i;
+const PLAIN_TERM = /^(\p{Lu}[\p{L}\p{N} /&-]{0,50}?)\s+(?:means|shall mean|refers to|shall refer to)\b/u;
+const DEFINITIONS_TITLE = /definition|interpretation|meaning of words/i;
+
+const slug = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}.]+/gu, '-').replace(/^-+|-+$/g, '') || 'untitled';
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/** The heading text of a section, or the first words of a clause that has none. */
+function toTitle(text: string, isHeading: boolean): string {
+  const words = text.split(' ');
+  if (isHeading || words.length <= HEADING_MAX_WORDS) return text.replace(/[.:]$/, '');
+
+  // "Maternity: expenses are covered…" and "Maternity. Expenses…" are titled
+  const lead = /^(\p{Lu}[^.:;–—]*?)\s*[.:–—]\s/u.exec(text);
+  if (lead && lead[1].split(' ').length <= LEAD_MAX_WORDS) return lead[1];
+  return `${words.slice(0, LEAD_MAX_WORDS).join(' ')}…`;
+}
+
+function classify(block: TextBlock, text: string, inDefinitions: boolean): Candidate | undefined {
+  const isHeading = block.kind === 'heading';
+  const isHeadingLike = isHeading || text.split(' ').length <= HEADING_MAX_WORDS;
+
+  // A definition often sits in a lettered list, so its marker is not taken for a sub-clause
+  const marker = listMarker(text);
+  const body = marker ? text.slice(text.indexOf(marker) + marker.length).trim() : text;
+  const term = QUOTED_TERM.exec(body) ?? (inDefinitions ? PLAIN_TERM.exec(body) : null);
+  if (term && !isHeading) {
+    // Numbered definitions keep their clause number; lettered ones are only told apart by their term
+    const number = /^\d/.test(marker ?? '') ? marker.replace(/\.$/, '') : undefined;
+    return { kind: 'definition', number, title: term[1].trim(), rank: RANK_DEFINITION };
+  }
+
+  const schedule = isHeadingLike && SCHEDULE.exec(text);
+  if (schedule) {
+    const [, word, number, title] = schedule;
+    const kind = /^schedule/i.test(word) ? 'schedule' : 'annexure';
+    return { kind, number: number.toUpperCase(), title, rank: RANK_SCHEDULE, prefix: `${capitalize(word)} ${number.toUpperCase()}` };
+  }
+
+  const division = isHeadingLike && DIVISION.exec(text);
+  if (division) {
+    const [, word, number, title] = division;
+    return { kind: 'heading', number: number.toUpperCase(), title, rank: RANK_DIVISION, prefix: `${capitalize(word)} ${number.toUpperCase()}` };
+  }
+
+  const named = isHeadingLike && NAMED_CLAUSE.exec(text);
+  if (named) {
+    const [, word, number, title] = named;
+    return { kind: 'clause', number, title, rank: 10 + number.split('.').length, prefix: capitalize(word) };
+  }
+
+  const numbered = NUMBERED.exec(text);
+  if (numbered && (numbered[2] || numbered[1].includes('.') || isHeading)) {
+    const [, number, , rest] = numbered;
+    return { kind: 'clause', number, title: toTitle(rest, isHeading), rank: 10 + number.split('.').length, prefix: 'Section' };
+  }
+
+  const subClause = SUB_CLAUSE.exec(text);
+  if (subClause) {
+    const [, number, rest] = subClause;
+    return { kind: 'clause', number, title: toTitle(rest, isHeading), rank: ROMAN.test(number) ? RANK_ROMAN : RANK_LETTER, prefix: 'Section' };
+  }
+
+  if (isHeading) {
+    return { kind: 'heading', title: text, rank: 1 + Math.min(block.level ?? 1, 6) };
+  }
+  return undefined;
+}
+
+function toLabel({ kind, title, prefix }: Candidate, number: string | undefined): string {
+  if (kind === 'definition') return `Definition of “${title}”`;
+  const name = kind === 'clause' ? `${prefix} ${number}` : prefix;
+  if (!name) return title;
+  return title ? `${name} – ${title}` : name;
+}
+
+/**
+ * Finds the clauses, headings, definitions, schedules and annexures of a
+ * document and nests them as numbered. Each block is tagged with the
+ * innermost section it belongs to.
+ *
+ * Numbers nest by their depth ("4.2.1" sits in "4.2"), lettered and roman
+ * sub-clauses in the clause above them, and everything in the schedule or
+ * annexure it appears in. Terms are taken for definitions when quoted before
+ * "means" or similar, or unquoted within a definitions section. Lettered and
+ * roman items only count as sub-clauses inside a numbered clause, and
+ * schedules, parts and named sections only when they stand as headings.
+ */
+export function segmentSections(pages: ParsedPage[]): DocumentSection[] {
+  const root: DocumentSection[] = [];
+  const stack: OpenSection[] = [];
+  const usedIds = new Map<string, number>();
+
+  const uniqueId = (base: string) => {
+    const count = (usedIds.get(base) ?? 0) + 1;
+    usedIds.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  };
+
+  pages.forEach(page => page.blocks.forEach((block, blockIndex) => {
+    const text = block.text.replace(/\s+/g, ' ').trim();
+    const inDefinitions = stack.some(open => DEFINITIONS_TITLE.test(open.section.title));
+    let candidate = text ? classify(block, text, inDefinitions) : undefined;
+
+    if (candidate && candidate.rank >= RANK_LETTER && candidate.rank < RANK_DEFINITION) {
+      const owner = [...stack].reverse().find(open => open.clause !== undefined && open.rank < RANK_LETTER);
+      if (!owner) {
+        // An ordinary list outside numbered clauses
+        candidate = undefined;
+      } else if (candidate.rank === RANK_ROMAN && candidate.number.length === 1
+        && owner.lastLetter?.charCodeAt(0) + 1 === candidate.number.charCodeAt(0)) {
+        // "(i)" right after "(h)" continues the letters
+        candidate.rank = RANK_LETTER;
+      }
+    }
+
+    if (!candidate) {
+      block.sectionId = stack[stack.length - 1]?.section.id;
+      return;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].rank >= candidate.rank) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    const schedule = stack.find(open => open.rank === RANK_SCHEDULE);
+
+    // Sub-clauses are numbered within their clause, which is what remains open above them
+    let number = candidate.number;
+    if (candidate.rank >= RANK_LETTER && candidate.kind === 'clause') {
+      number = `${parent.clause}(${candidate.number})`;
+      if (candidate.rank === RANK_LETTER) parent.lastLetter = candidate.number;
+    }
+
+    const idBase = candidate.kind === 'clause'
+      ? `clause-${slug(number)}`
+      : candidate.prefix ? slug(candidate.prefix) : `${candidate.kind}-${slug(candidate.title)}`;
+    const section: DocumentSection = {
+      id: uniqueId(schedule && candidate.rank > RANK_SCHEDULE ? `${schedule.section.id}/${idBase}` : idBase),
+      kind: candidate.kind,
+      number,
+      title: candidate.title,
+      // Clause numbers start again in each schedule, so its clauses are named with it
+      label: schedule && candidate.kind === 'clause' ? `${schedule.prefix}, ${toLabel(candidate, number)}` : toLabel(candidate, number),
+      level: stack.length + 1,
+      page: page.number,
+      block: blockIndex,
+      items: [],
+    };
+
+    (parent ? parent.section.items : root).push(section);
+    stack.push({ section, rank: candidate.rank, clause: candidate.kind === 'clause' ? number : undefined, prefix: candidate.prefix });
+    block.sectionId = section.id;
+  }));
+
+  return root;
+}
+
+/** All sections in document order, nested ones after the section containing them. */
+export function flattenSections(sections: DocumentSection[]): DocumentSection[] {
+  return sections.flatMap(section => [section, ...flattenSections(section.items)]);
+}
@@ -0,0 +1,60 @@
+import type { ParsedDocument } from '@/types/parsedDocument';
+import { buildDocument, tableBlocks, toPage, type ParseOptions } from './structure';
+import { decodeText } from './text';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+// Lines looked at when guessing the delimiter
+const SNIFF_LINES = 10;
+
+/** Splits delimited text into rows of cells, with RFC 4180 quoting. */
+function readRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (text[i + 1] === '"') cell += text[++i];
+      else quoted = false;
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell]);
+
+  // Line breaks within quoted cells would read as new rows in the table's text
+  return rows.map(cells => cells.map(value => value.replace(/\s+/g, ' ').trim())).filter(cells => cells.some(Boolean));
+}
+
+/** The delimiter that splits the first lines into the same, largest number of cells. */
+function sniffDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, SNIFF_LINES).join('\n');
+  const scored = DELIMITERS.map((delimiter) => {
+    const widths = readRows(lines, delimiter).map(cells => cells.length);
+    const consistent = widths.every(width => width === widths[0]);
+    return { delimiter, score: (widths[0] ?? 1) > 1 ? widths[0] * (consistent ? 2 : 1) : 0 };
+  });
+  return scored.reduce((best, candidate) => (candidate.score > best.score ? candidate : best)).delimiter;
+}
+
+/** Reads comma-, semicolon-, tab- or pipe-separated values as one table, its first row taken for the header. */
+export async function parseCsv(data: ArrayBuffer, { signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  const { text, encoding } = decodeText(new Uint8Array(data));
+  const rows = readRows(text, sniffDelimiter(text));
+  signal?.throwIfAborted();
+
+  return buildDocument('csv', [toPage(1, tableBlocks(rows))], { encoding });
+}
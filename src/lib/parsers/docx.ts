@@ -0,0 +1,272 @@
+import { unzipSync } from 'fflate';
+import { DomUtils } from 'htmlparser2';
+import type { ParsedDocument, TextBlock } from '@/types/parsedDocument';
+import { toLetters, toRoman } from './markers';
+import { child, elements, parseXml, readPackageMetadata, type XmlElement } from './ooxml';
+import { buildDocument, InvalidDocumentError, toPage, type ParseOptions } from './structure';
+
+interface ParagraphStyle {
+  /** 1-based outline level, for headings */
+  headingLevel?: number;
+  numbering?: { numId: string; ilvl: number };
+}
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+interface Numbering {
+  levels: Map<number, NumberingLevel>;
+  startOverrides: Map<number, number>;
+}
+
+const PARTS = ['word/document.xml', 'word/styles.xml', 'word/numbering.xml', 'docProps/core.xml', 'docProps/app.xml'];
+
+// Subtrees whose text is not part of the body as read: properties, tracked deletions, drawings and note references
+const SKIPPED = new Set([
+  'w:pPr', 'w:rPr', 'w:sdtPr', 'w:del', 'w:moveFrom', 'w:drawing', 'w:pict', 'w:object',
+  'mc:AlternateContent', 'w:footnoteReference', 'w:endnoteReference', 'w:commentReference',
+]);
+
+// Word stores bullets as glyphs of symbol fonts, which mean nothing outside them
+const BULLET = '•';
+const BODY_OUTLINE_LEVEL = 9;
+const MAX_STYLE_DEPTH = 10;
+
+const attr = (node: XmlElement | undefined, name = 'w:val'): string | undefined =>
+  node ? DomUtils.getAttributeValue(node, name) : undefined;
+
+/** An on/off property such as <w:pageBreakBefore/>, which is on unless its value says otherwise. */
+const isOn = (node: XmlElement | undefined) => !!node && !['0', 'false', 'off'].includes(attr(node) ?? '');
+
+function readNumPr(pPr: XmlElement | undefined): ParagraphStyle['numbering'] {
+  const numPr = child(pPr, 'w:numPr');
+  const numId = attr(child(numPr, 'w:numId'));
+  if (numId === undefined) return undefined;
+  return { numId, ilvl: Number(attr(child(numPr, 'w:ilvl')) ?? 0) };
+}
+
+function readOutlineLevel(pPr: XmlElement | undefined): number | undefined {
+  const level = attr(child(pPr, 'w:outlineLvl'));
+  return level === undefined || Number(level) >= BODY_OUTLINE_LEVEL ? undefined : Number(level) + 1;
+}
+
+/** Heading levels and list numbering of paragraph styles, with inherited properties resolved. */
+function readStyles(xml: string | undefined): Map<string, ParagraphStyle> {
+  const raw = new Map<string, { name: string; basedOn?: string; pPr?: XmlElement }>();
+  if (xml) {
+    DomUtils.getElementsByTagName('w:style', parseXml(xml))
+      .filter(style => attr(style, 'w:type') === 'paragraph')
+      .forEach(style => raw.set(attr(style, 'w:styleId'), {
+        name: attr(child(style, 'w:name')) ?? '',
+        basedOn: attr(child(style, 'w:basedOn')),
+        pPr: child(style, 'w:pPr'),
+      }));
+  }
+
+  const resolve = (id: string | undefined, depth = 0): ParagraphStyle => {
+    const style = id ? raw.get(id) : undefined;
+    if (!style || depth > MAX_STYLE_DEPTH) return {};
+
+    const inherited = resolve(style.basedOn, depth + 1);
+    const named = /^(?:heading\s*(\d)|title)$/i.exec(style.name);
+    return {
+      headingLevel: readOutlineLevel(style.pPr) ?? (named ? Number(named[1] ?? 1) : inherited.headingLevel),
+      numbering: readNumPr(style.pPr) ?? inherited.numbering,
+    };
+  };
+
+  return new Map([...raw.keys()].map(id => [id, resolve(id)]));
+}
+
+function readNumbering(xml: string | undefined): Map<string, Numbering> {
+  const numbering = new Map<string, Numbering>();
+  if (!xml) return numbering;
+
+  const root = parseXml(xml);
+  const abstracts = new Map(DomUtils.getElementsByTagName('w:abstractNum', root).map(abstract => [
+    attr(abstract, 'w:abstractNumId'),
+    new Map(elements(abstract, 'w:lvl').map((lvl): [number, NumberingLevel] => [Number(attr(lvl, 'w:ilvl')), {
+      start: Number(attr(child(lvl, 'w:start')) ?? 1),
+      format: attr(child(lvl, 'w:numFmt')) ?? 'decimal',
+      text: attr(child(lvl, 'w:lvlText')) ?? '',
+    }])),
+  ]));
+
+  DomUtils.getElementsByTagName('w:num', root).forEach((num) => {
+    numbering.set(attr(num, 'w:numId'), {
+      levels: abstracts.get(attr(child(num, 'w:abstractNumId'))) ?? new Map(),
+      startOverrides: new Map(elements(num, 'w:lvlOverride')
+        .filter(override => child(override, 'w:startOverride'))
+        .map(override => [Number(attr(override, 'w:ilvl')), Number(attr(child(override, 'w:startOverride')))])),
+    });
+  });
+  return numbering;
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter': return toLetters(value);
+    case 'upperLetter': return toLetters(value).toUpperCase();
+    case 'lowerRoman': return toRoman(value);
+    case 'upperRoman': return toRoman(value).toUpperCase();
+    case 'decimalZero': return String(value).padStart(2, '0');
+    case 'none': return '';
+    default: return String(value);
+  }
+}
+
+/** Keeps the running counters of every list and renders the number of each list paragraph. */
+class ListCounter {
+  private counters = new Map<string, number[]>();
+
+  constructor(private readonly numbering: Map<string, Numbering>) {}
+
+  next(numId: string, ilvl: number): string | undefined {
+    const list = this.numbering.get(numId);
+    const level = list?.levels.get(ilvl);
+    if (!level) return undefined;
+
+    const startOf = (lvl: number) => list.startOverrides.get(lvl) ?? list.levels.get(lvl)?.start ?? 1;
+    const counters = this.counters.get(numId) ?? [];
+    counters[ilvl] = counters[ilvl] === undefined ? startOf(ilvl) : counters[ilvl] + 1;
+    // A new item restarts the numbering of the levels below it
+    counters.length = ilvl + 1;
+    this.counters.set(numId, counters);
+
+    if (level.format === 'bullet') return BULLET;
+    return level.text.replace(/%(\d)/g, (_, n: string) => {
+      const lvl = Number(n) - 1;
+      return formatNumber(counters[lvl] ?? startOf(lvl), list.levels.get(lvl)?.format ?? 'decimal');
+    }).trim();
+  }
+}
+
+interface ParagraphText {
+  text: string;
+  breakBefore: boolean;
+  breakAfter: boolean;
+}
+
+function readParagraphText(paragraph: XmlElement): ParagraphText {
+  let text = '';
+  let breakBefore = isOn(child(child(paragraph, 'w:pPr'), 'w:pageBreakBefore'));
+  let breakAfter = false;
+
+  const walk = (node: XmlElement) => elements(node).forEach((element) => {
+    if (SKIPPED.has(element.name)) return;
+    switch (element.name) {
+      case 'w:t':
+        text += DomUtils.textContent(element);
+        return;
+      case 'w:tab':
+        text += '\t';
+        return;
+      case 'w:cr':
+        text += '\n';
+        return;
+      case 'w:noBreakHyphen':
+        text += '-';
+        return;
+      case 'w:br':
+        if (attr(element, 'w:type') === 'page') {
+          // Pages are split between paragraphs; a break mid-paragraph ends the page after it
+          if (text.trim()) breakAfter = true;
+          else breakBefore = true;
+        } else {
+          text += '\n';
+        }
+        return;
+      default:
+        walk(element);
+    }
+  });
+
+  walk(paragraph);
+  return { text, breakBefore, breakAfter };
+}
+
+function readTable(table: XmlElement): TextBlock {
+  const rows = elements(table, 'w:tr').map(row => elements(row, 'w:tc').map(cell =>
+    DomUtils.getElementsByTagName('w:p', cell).map(paragraph => readParagraphText(paragraph).text.replace(/\s+/g, ' ').trim()).filter(Boolean).join(' ')));
+  return {
+    kind: 'table',
+    text: rows.map(cells => cells.join('\t')).join('\n'),
+    rows,
+  };
+}
+
+/** Extracts paragraphs, headings, numbered lists and tables of a Word (OOXML) document. */
+export async function parseDocx(data: ArrayBuffer, { signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(data), { filter: file => PARTS.includes(file.name) });
+  } catch (error) {
+    // Password-protected and legacy Word files are not ZIP archives
+    throw new InvalidDocumentError(`Not a DOCX archive: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!files['word/document.xml']) {
+    throw new InvalidDocumentError('The archive has no word/document.xml');
+  }
+
+  const part = (name: string) => files[name] ? new TextDecoder().decode(files[name]) : undefined;
+  const styles = readStyles(part('word/styles.xml'));
+  const lists = new ListCounter(readNumbering(part('word/numbering.xml')));
+  const body = DomUtils.getElementsByTagName('w:body', parseXml(part('word/document.xml')), true, 1)[0];
+  signal?.throwIfAborted();
+
+  const pages: TextBlock[][] = [[]];
+  const add = (block: TextBlock) => pages[pages.length - 1].push(block);
+  const breakPage = () => {
+    if (pages[pages.length - 1].length > 0) pages.push([]);
+  };
+
+  const readParagraph = (paragraph: XmlElement) => {
+    const pPr = child(paragraph, 'w:pPr');
+    const style = styles.get(attr(child(pPr, 'w:pStyle'))) ?? {};
+    const numbering = readNumPr(pPr) ?? style.numbering;
+    const headingLevel = readOutlineLevel(pPr) ?? style.headingLevel;
+    const { text, breakBefore, breakAfter } = readParagraphText(paragraph);
+    const content = text.replace(/[ \t]+/g, ' ').trim();
+
+    if (breakBefore) breakPage();
+    // numId 0 explicitly removes numbering inherited from the style
+    const marker = numbering && numbering.numId !== '0' && content ? lists.next(numbering.numId, numbering.ilvl) : undefined;
+    const shown = marker ? `${marker} ${content}` : content;
+
+    if (shown && headingLevel) {
+      add({ kind: 'heading', text: shown, level: headingLevel, marker });
+    } else if (shown && marker) {
+      add({ kind: 'list-item', text: shown, level: numbering.ilvl, marker });
+    } else if (shown) {
+      add({ kind: 'paragraph', text: shown });
+    }
+    if (breakAfter) breakPage();
+  };
+
+  const walk = (node: XmlElement) => elements(node).forEach((element) => {
+    switch (element.name) {
+      case 'w:p':
+        readParagraph(element);
+        return;
+      case 'w:tbl':
+        add(readTable(element));
+        return;
+      case 'w:sdt':
+        walk(child(element, 'w:sdtContent') ?? element);
+        return;
+      case 'w:customXml':
+      case 'w:ins':
+        walk(element);
+    }
+  });
+  if (body) walk(body);
+
+  return buildDocument(
+    'docx',
+    pages.map((blocks, index) => toPage(index + 1, blocks)),
+    readPackageMetadata(part('docProps/core.xml'), part('docProps/app.xml')),
+  );
+}
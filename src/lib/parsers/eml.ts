@@ -0,0 +1,240 @@
+import type { DocumentMetadata, ParsedDocument, TextBlock } from '@/types/parsedDocument';
+import { readHtml } from './html';
+import { buildDocument, InvalidDocumentError, toPage, type EmbeddedFile, type ParseOptions } from './structure';
+import { decodeText, splitText } from './text';
+
+interface MimePart {
+  headers: Map<string, string>;
+  /** Media type in lower case, e.g. "text/plain" */
+  type: string;
+  params: Map<string, string>;
+  /** Body before transfer decoding, one character per byte */
+  body: string;
+}
+
+interface MessageContent {
+  /** Blocks of the message text, page by page */
+  pages: TextBlock[][];
+  attachments: EmbeddedFile[];
+}
+
+// Headers shown above the message text, in this order
+const SHOWN_HEADERS = ['from', 'to', 'cc', 'date'];
+const HEADER_NAMES: Record<string, string> = { from: 'From', to: 'To', cc: 'Cc', date: 'Date' };
+const ENCODED_WORD = /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi;
+const MAX_DEPTH = 10;
+// Bytes turned into characters per call, well below the engines' argument limits
+const CHUNK_SIZE = 0x8000;
+
+/** A string holding one character per byte, which keeps 8-bit data intact through string handling. */
+function toBinary(bytes: Uint8Array): string {
+  let binary = '';
+  for (let start = 0; start < bytes.length; start += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + CHUNK_SIZE));
+  }
+  return binary;
+}
+
+/** The bytes of a string holding one character per byte. */
+const toBytes = (binary: string) => Uint8Array.from(binary, char => char.charCodeAt(0) & 0xff);
+
+function decodeBase64(text: string): Uint8Array {
+  try {
+    return toBytes(atob(text.replace(/[^A-Za-z0-9+/]/g, '')));
+  } catch {
+    return new Uint8Array();
+  }
+}
+
+function decodeQuotedPrintable(text: string, header = false): Uint8Array {
+  const unescaped = (header ? text.replace(/_/g, ' ') : text.replace(/=\r?\n/g, ''))
+    .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+  return toBytes(unescaped);
+}
+
+/** Decodes =?charset?B?...?= and =?charset?Q?...?= words, joining adjacent ones as RFC 2047 asks. */
+function decodeHeader(value: string): string {
+  const text = decodeText(toBytes(value)).text;
+  return text
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(ENCODED_WORD, (_, charset: string, encoding: string, encoded: string) => {
+      const bytes = encoding.toLowerCase() === 'b' ? decodeBase64(encoded) : decodeQuotedPrintable(encoded, true);
+      return decodeText(bytes, charset.replace(/\*.*$/, '')).text;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Splits "type/subtype; name=value; ..." into its value and parameters, including RFC 2231 extended ones. */
+function parseHeaderValue(value: string): { value: string; params: Map<string, string> } {
+  const [first, ...rest] = value.match(/(?:[^;"]|"(?:[^"\\]|\\.)*")+/g) ?? [''];
+  const params = new Map<string, string>();
+  const continued = new Map<string, string[]>();
+
+  rest.forEach((param) => {
+    const match = /^\s*([^=\s]+)\s*=\s*(.*?)\s*$/.exec(param);
+    if (!match) return;
+    const name = match[1].toLowerCase();
+    const raw = match[2].replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1');
+    const extended = /^(.+?)(?:\*(\d+))?\*$/.exec(name);
+    if (extended) {
+      // name*=utf-8''percent%20encoded, possibly split into name*0*, name*1*, ...
+      const parts = continued.get(extended[1]) ?? [];
+      parts[Number(extended[2] ?? 0)] = raw;
+      continued.set(extended[1], parts);
+    } else {
+      params.set(name.replace(/\*\d+$/, ''), (params.get(name.replace(/\*\d+$/, '')) ?? '') + raw);
+    }
+  });
+
+  continued.forEach((parts, name) => {
+    const [, charset, encoded] = /^([^']*)'[^']*'(.*)$/.exec(parts.join('')) ?? [undefined, 'utf-8', parts.join('')];
+    const bytes = toBytes(encoded.replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16))));
+    params.set(name, decodeText(bytes, charset || 'utf-8').text);
+  });
+
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const head = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index + separator[0].length) : '';
+
+  const headers = new Map<string, string>();
+  head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach((line) => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Repeated headers such as Received are not shown, so the first is kept
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  });
+
+  const { value, params } = parseHeaderValue(headers.get('content-type') ?? 'text/plain');
+  return { headers, type: value || 'text/plain', params, body };
+}
+
+function decodeBody(part: MimePart): Uint8Array {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').trim().toLowerCase();
+  if (encoding === 'base64') return decodeBase64(part.body);
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body);
+  return toBytes(part.body);
+}
+
+function splitMultipart(part: MimePart): MimePart[] {
+  const boundary = part.params.get('boundary');
+  if (!boundary) return [];
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const sections = part.body.split(new RegExp(String.raw`(?:^|\r?\n)--${escaped}(?:--)?[ \t]*(?=\r?\n|$)`));
+  // Text before the first boundary is a preamble for non-MIME readers; after the closing one, if any, an epilogue
+  const closed = part.body.includes(`--${boundary}--`);
+  return sections.slice(1, closed ? -1 : undefined).map(section => parsePart(section.replace(/^\r?\n/, '')));
+}
+
+function fileName(part: MimePart): string | undefined {
+  const disposition = parseHeaderValue(part.headers.get('content-disposition') ?? '');
+  const name = disposition.params.get('filename') ?? part.params.get('name');
+  return name ? decodeHeader(name) : undefined;
+}
+
+function isAttachment(part: MimePart): boolean {
+  const disposition = parseHeaderValue(part.headers.get('content-disposition') ?? '').value;
+  // Inline parts, such as images in an HTML message, belong to the text rather than being attached
+  return disposition === 'attachment' || (disposition !== 'inline' && !!fileName(part) && !part.type.startsWith('text/'));
+}
+
+function readText(part: MimePart): TextBlock[][] {
+  const { text } = decodeText(decodeBody(part), part.params.get('charset'));
+  return part.type === 'text/html' ? readHtml(text).pages : splitText(text);
+}
+
+/** The text of a message and its attachments; alternatives are read in their richest form. */
+function readContent(part: MimePart, depth = 0): MessageContent {
+  const content: MessageContent = { pages: [], attachments: [] };
+  if (depth > MAX_DEPTH) return content;
+
+  if (part.type.startsWith('multipart/')) {
+    const parts = splitMultipart(part);
+    if (part.type === 'multipart/alternative') {
+      // Alternatives are listed from plainest to richest
+      const readable = parts.filter(alternative => alternative.type === 'text/html' || alternative.type === 'text/plain' || alternative.type.startsWith('multipart/'));
+      const chosen = readable.find(alternative => alternative.type !== 'text/plain') ?? readable[0];
+      return chosen ? readContent(chosen, depth + 1) : content;
+    }
+    parts.forEach((child) => {
+      const read = readContent(child, depth + 1);
+      // Consecutive text parts, such as a message and a footer added by a mail server, run on
+      const [first, ...rest] = read.pages;
+      if (first && content.pages.length > 0) content.pages[content.pages.length - 1].push(...first);
+      else if (first) content.pages.push(first);
+      content.pages.push(...rest);
+      content.attachments.push(...read.attachments);
+    });
+  } else if (isAttachment(part) || part.type === 'message/rfc822') {
+    const name = fileName(part) ?? (part.type === 'message/rfc822' ? 'Forwarded message.eml' : 'Attachment');
+    const data = decodeBody(part);
+    content.attachments.push({ name, type: part.type, data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer });
+  } else if (part.type === 'text/plain' || part.type === 'text/html') {
+    content.pages.push(...readText(part));
+  }
+  return content;
+}
+
+/** Subject, sender, recipients and date, as a mail client shows them above the message. */
+function readHeaderBlocks(message: MimePart, attachments: EmbeddedFile[]): TextBlock[] {
+  const subject = decodeHeader(message.headers.get('subject') ?? '');
+  const lines = SHOWN_HEADERS
+    .filter(name => message.headers.has(name))
+    .map(name => `${HEADER_NAMES[name]}: ${decodeHeader(message.headers.get(name))}`);
+  if (attachments.length > 0) {
+    lines.push(`Attachments: ${attachments.map(attachment => attachment.name).join(', ')}`);
+  }
+
+  const blocks: TextBlock[] = [];
+  if (subject) blocks.push({ kind: 'heading', text: subject, level: 1 });
+  if (lines.length > 0) blocks.push({ kind: 'paragraph', text: lines.join('\n') });
+  return blocks;
+}
+
+/** The name of a mailbox such as "Jane Doe <jane@example.com>", or its address when it has none. */
+const mailboxName = (mailbox: string) => /^"?([^"<]+?)"?\s*</.exec(mailbox)?.[1] ?? mailbox.replace(/[<>]/g, '');
+
+/**
+ * Reads an email message (RFC 822 / MIME): its headers, its text, from the
+ * HTML alternative when there is one, and every attachment the other parsers
+ * can read, each starting on a page of its own. Attachments that cannot be
+ * read are listed by name only.
+ */
+export async function parseEml(data: ArrayBuffer, { onProgress, parseEmbedded, signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  // Headers and transfer encodings are ASCII; bodies are decoded per part, in their own charset
+  const message = parsePart(toBinary(new Uint8Array(data)));
+  if (message.headers.size === 0) {
+    throw new InvalidDocumentError('The file has no message headers');
+  }
+
+  const { pages: textPages, attachments } = readContent(message);
+  const pages: TextBlock[][] = textPages.length > 0 ? textPages : [[]];
+  pages[0].unshift(...readHeaderBlocks(message, attachments));
+
+  for (const [index, attachment] of attachments.entries()) {
+    signal?.throwIfAborted();
+    const parsed = await parseEmbedded?.(attachment).catch(() => undefined);
+    onProgress?.(index + 1, attachments.length);
+    if (!parsed) continue;
+
+    parsed.pages.forEach((page, pageIndex) => pages.push([
+      ...(pageIndex === 0 ? [{ kind: 'heading', text: `Attachment: ${attachment.name}`, level: 1 } satisfies TextBlock] : []),
+      ...page.blocks,
+    ]));
+  }
+
+  const from = message.headers.get('from');
+  const date = message.headers.get('date');
+  const metadata: Omit<DocumentMetadata, 'pageCount' | 'wordCount'> = {
+    title: decodeHeader(message.headers.get('subject') ?? '') || undefined,
+    author: from ? mailboxName(decodeHeader(from)) : undefined,
+    createdAt: date && !Number.isNaN(Date.parse(date)) ? new Date(date).toISOString() : undefined,
+  };
+
+  return buildDocument('eml', pages.map((blocks, index) => toPage(index + 1, blocks)), metadata);
+}
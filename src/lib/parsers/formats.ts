@@ -0,0 +1,53 @@
+import type { ParsedDocumentFormat } from '@/types/parsedDocument';
+
+export interface DocumentFormat {
+  format: ParsedDocumentFormat;
+  /** How the format is named to users, e.g. in the drop zone */
+  label: string;
+  /** The first is the format's canonical type */
+  mimeTypes: string[];
+  /** Lower case, with the leading dot */
+  extensions: string[];
+}
+
+/** The document formats that can be uploaded, in the order they are listed to users */
+export const DOCUMENT_FORMATS: DocumentFormat[] = [
+  { format: 'pdf', label: 'PDF', mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  {
+    format: 'docx',
+    label: 'DOCX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+  },
+  { format: 'txt', label: 'TXT', mimeTypes: ['text/plain'], extensions: ['.txt'] },
+  { format: 'html', label: 'HTML', mimeTypes: ['text/html', 'application/xhtml+xml'], extensions: ['.html', '.htm', '.xhtml'] },
+  { format: 'md', label: 'Markdown', mimeTypes: ['text/markdown', 'text/x-markdown'], extensions: ['.md', '.markdown'] },
+  { format: 'rtf', label: 'RTF', mimeTypes: ['application/rtf', 'text/rtf'], extensions: ['.rtf'] },
+  { format: 'eml', label: 'EML', mimeTypes: ['message/rfc822'], extensions: ['.eml'] },
+  { format: 'csv', label: 'CSV', mimeTypes: ['text/csv', 'text/tab-separated-values'], extensions: ['.csv', '.tsv'] },
+  {
+    format: 'xlsx',
+    label: 'XLSX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    extensions: ['.xlsx'],
+  },
+];
+
+/** For the `accept` attribute of file inputs */
+export const ACCEPTED_FILE_TYPES = DOCUMENT_FORMATS.flatMap(({ extensions, mimeTypes }) => [...extensions, ...mimeTypes]).join(',');
+
+/** "PDF, DOCX, or TXT", for messages about what can be uploaded */
+export const formatList = (conjunction = 'or') => {
+  const labels = DOCUMENT_FORMATS.map(({ label }) => label);
+  return `${labels.slice(0, -1).join(', ')}, ${conjunction} ${labels[labels.length - 1]}`;
+};
+
+/**
+ * The format of a file, by its extension first: browsers report no type for
+ * many of these formats, and Windows reports CSV files as Excel workbooks.
+ */
+export function formatOf(file: { name: string; type: string }): DocumentFormat | undefined {
+  const extension = /\.[^.]+$/.exec(file.name)?.[0].toLowerCase();
+  return DOCUMENT_FORMATS.find(({ extensions }) => extension && extensions.includes(extension))
+    ?? DOCUMENT_FORMATS.find(({ mimeTypes }) => mimeTypes.includes(file.type.split(';')[0].trim().toLowerCase()));
+}
@@ -0,0 +1,202 @@
+import { DomUtils, ElementType, parseDocument } from 'htmlparser2';
+import type { DocumentMetadata, ParsedDocument, TextBlock } from '@/types/parsedDocument';
+import { toLetters, toRoman } from './markers';
+import { buildDocument, tableBlocks, toPage, type ParseOptions } from './structure';
+import { decodeText } from './text';
+
+type HtmlNode = ReturnType<typeof parseDocument>['children'][number];
+type HtmlElement = ReturnType<typeof DomUtils.getElementsByTagName>[number];
+type HtmlText = Extract<HtmlNode, { data: string }>;
+
+export interface HtmlContent {
+  /** Blocks page by page; pages break where the page's CSS asks for it */
+  pages: TextBlock[][];
+  metadata: Omit<DocumentMetadata, 'pageCount' | 'wordCount'>;
+}
+
+interface OpenList {
+  ordered: boolean;
+  /** The list's type attribute: "1", "a", "A", "i" or "I" */
+  style: string;
+  next: number;
+}
+
+// Elements that end the running text, so what follows starts a new block
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'center', 'dd', 'details', 'dialog', 'div', 'dl',
+  'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'header', 'hgroup', 'hr', 'li', 'main', 'ol', 'p',
+  'pre', 'section', 'summary', 'table', 'ul', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+
+// Elements whose text is not part of the page as read: scripts, embedded content, form controls and site navigation
+const SKIPPED = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'svg', 'math', 'canvas', 'iframe', 'object', 'embed',
+  'button', 'select', 'textarea', 'nav',
+]);
+
+// Bytes searched for a <meta charset> declaration, as browsers do
+const SNIFF_LENGTH = 1024;
+
+const BULLET = '•';
+
+function formatNumber(value: number, style: string): string {
+  switch (style) {
+    case 'a': return toLetters(value);
+    case 'A': return toLetters(value).toUpperCase();
+    case 'i': return toRoman(value);
+    case 'I': return toRoman(value).toUpperCase();
+    default: return String(value);
+  }
+}
+
+function breaksPage(element: HtmlElement, side: 'before' | 'after'): boolean {
+  const style = element.attribs.style ?? '';
+  return new RegExp(String.raw`(?:page-break-${side}\s*:\s*always|(?:^|[;\s])break-${side}\s*:\s*page)`, 'i').test(style);
+}
+
+const isElement = (node: HtmlNode): node is HtmlElement => ElementType.isTag(node);
+const isText = (node: HtmlNode): node is HtmlText => node.type === ElementType.Text;
+
+const cellText = (cell: HtmlElement) => DomUtils.textContent(cell).replace(/\s+/g, ' ').trim();
+
+/** Rows of a table, leaving out those of tables nested in its cells. */
+function readRows(table: HtmlElement): string[][] {
+  return DomUtils.getElementsByTagName('tr', table.children, true)
+    .filter(row => closestTable(row) === table)
+    .map(row => DomUtils.getChildren(row).filter(isElement).filter(cell => cell.name === 'td' || cell.name === 'th').map(cellText))
+    .filter(cells => cells.some(Boolean));
+}
+
+function closestTable(node: HtmlElement): HtmlElement | undefined {
+  for (let parent = node.parent as HtmlElement | null; parent; parent = parent.parent as HtmlElement | null) {
+    if (parent.name === 'table') return parent;
+  }
+  return undefined;
+}
+
+function readMetadata(root: ReturnType<typeof parseDocument>): HtmlContent['metadata'] {
+  const meta = (name: string) => {
+    const element = DomUtils.findOne(
+      node => node.name === 'meta' && node.attribs.name?.toLowerCase() === name,
+      root.children,
+    );
+    return element?.attribs.content?.trim() || undefined;
+  };
+  const title = DomUtils.getElementsByTagName('title', root, true, 1)[0];
+  const html = DomUtils.getElementsByTagName('html', root, true, 1)[0];
+
+  return {
+    title: (title && cellText(title)) || undefined,
+    author: meta('author'),
+    subject: meta('description'),
+    keywords: meta('keywords'),
+    creator: meta('generator'),
+    language: html?.attribs.lang || undefined,
+  };
+}
+
+/**
+ * Reads the headings, paragraphs, lists and tables of an HTML page. Ordered
+ * lists are numbered as a browser would show them, and pages break where
+ * an element's inline style asks for a page break.
+ */
+export function readHtml(html: string): HtmlContent {
+  const root = parseDocument(html, { decodeEntities: true });
+  const pages: TextBlock[][] = [[]];
+  const lists: OpenList[] = [];
+  let text = '';
+  let preformatted = 0;
+  // The block the running text will become when it ends
+  let pending: Omit<TextBlock, 'text'> = { kind: 'paragraph' };
+
+  const add = (block: TextBlock) => pages[pages.length - 1].push(block);
+  const breakPage = () => {
+    if (pages[pages.length - 1].length > 0) pages.push([]);
+  };
+
+  const flush = () => {
+    const content = text.split('\n')
+      .map(line => (preformatted > 0 ? line.replace(/\s+$/, '') : line.replace(/\s+/g, ' ').trim()))
+      .filter(line => line.trim())
+      .join('\n');
+    text = '';
+    if (!content) return;
+
+    add({ ...pending, text: pending.marker ? `${pending.marker} ${content}` : content });
+    // Text after a nested block continues the list item or heading as a plain paragraph
+    pending = { kind: 'paragraph' };
+  };
+
+  const walk = (nodes: HtmlNode[]) => nodes.forEach((node) => {
+    if (isText(node)) {
+      text += preformatted > 0 ? node.data : node.data.replace(/\s+/g, ' ');
+      return;
+    }
+    if (!isElement(node) || SKIPPED.has(node.name)) return;
+
+    const element = node;
+    if (element.name === 'br') {
+      text += '\n';
+      return;
+    }
+    if (!BLOCK_ELEMENTS.has(element.name)) {
+      walk(element.children);
+      return;
+    }
+
+    flush();
+    if (breaksPage(element, 'before')) breakPage();
+
+    const heading = /^h([1-6])$/.exec(element.name);
+    if (heading) {
+      pending = { kind: 'heading', level: Number(heading[1]) };
+      walk(element.children);
+    } else if (element.name === 'table') {
+      const caption = DomUtils.getChildren(element).find(node => isElement(node) && node.name === 'caption');
+      if (caption) walk([caption]);
+      flush();
+      tableBlocks(readRows(element), DomUtils.getElementsByTagName('th', element, true, 1).length > 0).forEach(add);
+    } else if (element.name === 'ol' || element.name === 'ul') {
+      const start = Number.parseInt(element.attribs.start, 10);
+      lists.push({ ordered: element.name === 'ol', style: element.attribs.type ?? '1', next: Number.isNaN(start) ? 1 : start });
+      walk(element.children);
+      lists.pop();
+    } else if (element.name === 'li') {
+      const list = lists[lists.length - 1];
+      const value = Number.parseInt(element.attribs.value, 10);
+      if (list && !Number.isNaN(value)) list.next = value;
+      const marker = !list || !list.ordered ? BULLET : `${formatNumber(list.next++, list.style)}.`;
+      pending = { kind: 'list-item', level: Math.max(lists.length - 1, 0), marker };
+      walk(element.children);
+    } else if (element.name === 'pre') {
+      preformatted++;
+      walk(element.children);
+      flush();
+      preformatted--;
+    } else {
+      walk(element.children);
+    }
+
+    flush();
+    pending = { kind: 'paragraph' };
+    if (breaksPage(element, 'after')) breakPage();
+  });
+
+  walk(root.children);
+  flush();
+
+  return { pages, metadata: readMetadata(root) };
+}
+
+/** Reads an HTML page in the encoding its <meta charset> declares, if any. */
+export async function parseHtml(data: ArrayBuffer, { signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  const bytes = new Uint8Array(data);
+  // Latin-1 keeps the ASCII of the declaration intact whatever the real encoding
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, SNIFF_LENGTH));
+  const declared = /<meta[^>]+charset\s*=\s*["']?\s*([\w:.-]+)/i.exec(head)?.[1];
+  const { text, encoding } = decodeText(bytes, declared);
+  signal?.throwIfAborted();
+
+  const { pages, metadata } = readHtml(text);
+  return buildDocument('html', pages.map((blocks, index) => toPage(index + 1, blocks)), { ...metadata, encoding });
+}
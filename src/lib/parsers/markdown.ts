@@ -0,0 +1,39 @@
+import { marked } from 'marked';
+import type { DocumentMetadata, ParsedDocument } from '@/types/parsedDocument';
+import { readHtml } from './html';
+import { buildDocument, toPage, type ParseOptions } from './structure';
+import { decodeText } from './text';
+
+// YAML front matter, as wikis and static site generators put it at the top of a page
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/** The plain "key: value" fields of front matter, which is where pages keep their title and author. */
+function readFrontMatter(yaml: string): Omit<DocumentMetadata, 'pageCount' | 'wordCount'> {
+  const fields = new Map<string, string>();
+  yaml.split(/\r?\n/).forEach((line) => {
+    const field = /^([\w-]+)\s*:\s*(.+)$/.exec(line);
+    if (field) fields.set(field[1].toLowerCase(), field[2].trim().replace(/^(["'])(.*)\1$/, '$2'));
+  });
+
+  const date = fields.get('date');
+  return {
+    title: fields.get('title'),
+    author: fields.get('author'),
+    subject: fields.get('description') ?? fields.get('summary'),
+    keywords: (fields.get('keywords') ?? fields.get('tags'))?.replace(/^\[(.*)\]$/, '$1'),
+    createdAt: date && !Number.isNaN(Date.parse(date)) ? new Date(date).toISOString() : undefined,
+    language: fields.get('lang') ?? fields.get('language'),
+  };
+}
+
+/** Renders Markdown (with GitHub's tables and lists) and reads the result as HTML. */
+export async function parseMarkdown(data: ArrayBuffer, { signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  const { text, encoding } = decodeText(new Uint8Array(data));
+  const frontMatter = FRONT_MATTER.exec(text);
+  const html = marked.parse(frontMatter ? text.slice(frontMatter[0].length) : text, { async: false, gfm: true });
+  signal?.throwIfAborted();
+
+  const { pages } = readHtml(html);
+  const metadata = frontMatter ? readFrontMatter(frontMatter[1]) : {};
+  return buildDocument('md', pages.map((blocks, index) => toPage(index + 1, blocks)), { ...metadata, encoding });
+}
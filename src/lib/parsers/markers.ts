@@ -0,0 +1,26 @@
+// "1.", "4.2.1", "(a)", "iv)", "A." or a bullet, followed by whitespace
+const LIST_MARKER = /^(\(?(?:\d{1,3}(?:\.\d{1,3})*|[a-z]|[ivxlc]{1,6})[.)]|\d{1,3}(?:\.\d{1,3})+|[•▪◦‣∙·\-–*])\s+/i;
+
+/** The list number or bullet a block of text starts with, if any. */
+export function listMarker(text: string): string | undefined {
+  return LIST_MARKER.exec(text)?.[1];
+}
+
+/** a..z, then aa..zz, as word processors letter lists */
+export function toLetters(value: number): string {
+  const letter = String.fromCharCode(97 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+export function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let remaining = value;
+  return numerals.reduce((roman, [amount, numeral]) => {
+    const count = Math.floor(remaining / amount);
+    remaining -= count * amount;
+    return roman + numeral.repeat(count);
+  }, '');
+}
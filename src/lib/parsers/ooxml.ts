@@ -0,0 +1,38 @@
+import { DomUtils, parseDocument } from 'htmlparser2';
+import type { DocumentMetadata } from '@/types/parsedDocument';
+
+export type XmlElement = ReturnType<typeof DomUtils.getElementsByTagName>[number];
+
+export const parseXml = (xml: string) => parseDocument(xml, { xmlMode: true });
+
+/** Child elements of a node, optionally only those of one name. */
+export const elements = (node: XmlElement, name?: string): XmlElement[] =>
+  DomUtils.getElementsByTagName(name ?? (() => true), node.children, false);
+
+export const child = (node: XmlElement | undefined, name: string): XmlElement | undefined =>
+  node ? elements(node, name)[0] : undefined;
+
+/** Title, author and dates from the core and app properties every Office Open XML package carries. */
+export function readPackageMetadata(core: string | undefined, app: string | undefined): Omit<DocumentMetadata, 'pageCount' | 'wordCount'> {
+  const coreRoot = core ? parseXml(core) : undefined;
+  const text = (name: string) => {
+    const value = coreRoot ? DomUtils.textContent(DomUtils.getElementsByTagName(name, coreRoot, true, 1)).trim() : '';
+    return value || undefined;
+  };
+  const date = (name: string) => {
+    const value = text(name);
+    return value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+  };
+  const application = app ? DomUtils.textContent(DomUtils.getElementsByTagName('Application', parseXml(app), true, 1)).trim() : '';
+
+  return {
+    title: text('dc:title'),
+    author: text('dc:creator'),
+    subject: text('dc:subject'),
+    keywords: text('cp:keywords'),
+    creator: application || undefined,
+    createdAt: date('dcterms:created'),
+    modifiedAt: date('dcterms:modified'),
+    language: text('dc:language'),
+  };
+}
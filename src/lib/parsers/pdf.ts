@@ -0,0 +1,238 @@
+// The legacy build bundles polyfills for the very recent JavaScript features the
+// default build requires. Registering its worker code on this thread makes
+// PDF.js parse in-process instead of spawning a worker of its own; this module
+// only runs inside ours.
+import 'pdfjs-dist/legacy/build/pdf.worker.min.mjs';
+import { getDocument, PDFDateString, type PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { DocumentMetadata, OutlineItem, ParsedDocument, ParsedPage, TextBlock, TextLine } from '@/types/parsedDocument';
+import { listMarker } from './markers';
+import { buildDocument, toPage, type ParseOptions } from './structure';
+
+interface PositionedItem {
+  text: string;
+  x: number;
+  /** Top of the glyph box */
+  y: number;
+  baseline: number;
+  width: number;
+  fontSize: number;
+  hasEOL: boolean;
+}
+
+interface Line extends TextLine {
+  baseline: number;
+  fontSize: number;
+}
+
+// Share of the font size that still counts as the same baseline / a word gap
+const BASELINE_TOLERANCE = 0.5;
+const WORD_GAP = 0.2;
+// Vertical gap, relative to the previous line's height, that starts a new block
+const BLOCK_GAP = 0.75;
+// Font size change, relative to the previous line, that starts a new block
+const FONT_SIZE_CHANGE = 0.2;
+// Short blocks this much larger than the body text are taken for headings
+const HEADING_SIZE = 1.15;
+const HEADING_MAX_LINES = 3;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function toLine(items: PositionedItem[]): Line {
+  let text = '';
+  items.forEach((item, index) => {
+    const previous = items[index - 1];
+    const gap = previous ? item.x - (previous.x + previous.width) : 0;
+    if (previous && gap > item.fontSize * WORD_GAP && !/\s$/.test(text) && !/^\s/.test(item.text)) {
+      text += ' ';
+    }
+    text += item.text;
+  });
+
+  const x = Math.min(...items.map(item => item.x));
+  const y = Math.min(...items.map(item => item.y));
+  const baseline = Math.max(...items.map(item => item.baseline));
+  return {
+    text: text.trim(),
+    x: round(x),
+    y: round(y),
+    width: round(Math.max(...items.map(item => item.x + item.width)) - x),
+    height: round(baseline - y),
+    baseline,
+    fontSize: Math.max(...items.map(item => item.fontSize)),
+  };
+}
+
+/** Joins text items into lines: an item starts a new line when its baseline moves or the previous one ended a line. */
+function groupLines(items: PositionedItem[]): Line[] {
+  const lines: Line[] = [];
+  let current: PositionedItem[] = [];
+
+  items.forEach((item) => {
+    const last = current[current.length - 1];
+    if (last && (last.hasEOL || Math.abs(item.baseline - last.baseline) > last.fontSize * BASELINE_TOLERANCE)) {
+      lines.push(toLine(current));
+      current = [];
+    }
+    current.push(item);
+  });
+  if (current.length > 0) lines.push(toLine(current));
+
+  return lines.filter(line => line.text);
+}
+
+/** Joins consecutive lines into blocks, breaking at wide vertical gaps and font size changes. */
+function groupBlocks(lines: Line[]): TextBlock[] {
+  const groups: Line[][] = [];
+
+  lines.forEach((line) => {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    const gap = previous ? line.y - (previous.y + previous.height) : 0;
+    const sizeChange = previous ? Math.abs(line.fontSize - previous.fontSize) / previous.fontSize : 0;
+
+    if (!previous || gap > previous.height * BLOCK_GAP || gap < -previous.height || sizeChange > FONT_SIZE_CHANGE) {
+      groups.push([line]);
+    } else {
+      group.push(line);
+    }
+  });
+
+  return groups.map((group) => {
+    const x = Math.min(...group.map(line => line.x));
+    const y = Math.min(...group.map(line => line.y));
+    return {
+      kind: 'paragraph',
+      text: group.map(line => line.text).join('\n'),
+      box: {
+        x: round(x),
+        y: round(y),
+        width: round(Math.max(...group.map(line => line.x + line.width)) - x),
+        height: round(Math.max(...group.map(line => line.y + line.height)) - y),
+      },
+      fontSize: round(Math.max(...group.map(line => line.fontSize))),
+      lines: group.map(({ text, x, y, width, height }) => ({ text, x, y, width, height })),
+    };
+  });
+}
+
+/**
+ * PDFs rarely say which text is a heading, so short blocks set larger than
+ * the body text are taken for headings, the largest size being level 1, and
+ * blocks starting with a number or bullet for list items.
+ */
+function classifyBlocks(pages: ParsedPage[]): ParsedPage[] {
+  const blocks = pages.flatMap(page => page.blocks);
+  const characters = new Map<number, number>();
+  blocks.forEach(block => characters.set(block.fontSize, (characters.get(block.fontSize) ?? 0) + block.text.length));
+  const bodySize = [...characters.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+  const isHeading = (block: TextBlock) =>
+    block.fontSize >= bodySize * HEADING_SIZE && block.lines.length <= HEADING_MAX_LINES;
+  const headingSizes = [...new Set(blocks.filter(isHeading).map(block => block.fontSize))].sort((a, b) => b - a);
+
+  return pages.map(page => ({
+    ...page,
+    blocks: page.blocks.map((block): TextBlock => {
+      const marker = listMarker(block.text);
+      if (isHeading(block)) {
+        return { ...block, kind: 'heading', level: Math.min(headingSizes.indexOf(block.fontSize) + 1, 6), marker };
+      }
+      return marker ? { ...block, kind: 'list-item', level: 0, marker } : block;
+    }),
+  }));
+}
+
+async function parsePage(pdf: PDFDocumentProxy, pageNumber: number): Promise<ParsedPage> {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    const items = content.items
+      .filter((item): item is TextItem => 'str' in item && (item.str !== '' || item.hasEOL))
+      .map((item): PositionedItem => {
+        const [, , c, d, e, f] = item.transform;
+        const fontSize = Math.hypot(c, d) || item.height;
+        const [x, baseline] = viewport.convertToViewportPoint(e, f);
+        return { text: item.str, x, y: baseline - fontSize, baseline, width: item.width, fontSize, hasEOL: item.hasEOL };
+      });
+
+    return toPage(pageNumber, groupBlocks(groupLines(items)), { width: round(viewport.width), height: round(viewport.height) });
+  } finally {
+    page.cleanup();
+  }
+}
+
+async function readMetadata(pdf: PDFDocumentProxy): Promise<Omit<DocumentMetadata, 'pageCount' | 'wordCount'>> {
+  const { info } = await pdf.getMetadata();
+  const fields = info as Record<string, unknown>;
+  const text = (name: string) => typeof fields[name] === 'string' && fields[name] !== '' ? fields[name] as string : undefined;
+  const date = (name: string) => text(name) ? PDFDateString.toDateObject(text(name))?.toISOString() : undefined;
+
+  return {
+    title: text('Title'),
+    author: text('Author'),
+    subject: text('Subject'),
+    keywords: text('Keywords'),
+    creator: text('Creator'),
+    producer: text('Producer'),
+    createdAt: date('CreationDate'),
+    modifiedAt: date('ModDate'),
+    language: text('Language'),
+    formatVersion: text('PDFFormatVersion'),
+  };
+}
+
+async function resolvePage(pdf: PDFDocumentProxy, dest: string | unknown[] | null): Promise<number | undefined> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (typeof target === 'number') return target + 1;
+    if (target && typeof target === 'object') return (await pdf.getPageIndex(target as Parameters<PDFDocumentProxy['getPageIndex']>[0])) + 1;
+  } catch {
+    // Broken destinations are common; the entry is kept without a page
+  }
+  return undefined;
+}
+
+async function readOutline(pdf: PDFDocumentProxy): Promise<OutlineItem[]> {
+  type RawOutline = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>;
+  const convert = (items: RawOutline): Promise<OutlineItem[]> => Promise.all((items ?? []).map(async item => ({
+    title: item.title,
+    page: await resolvePage(pdf, item.dest),
+    items: await convert(item.items as RawOutline),
+  })));
+
+  return convert(await pdf.getOutline());
+}
+
+/** Extracts the text, layout, metadata and outline of a PDF. */
+export async function parsePdf(data: ArrayBuffer, { onProgress, signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  const loadingTask = getDocument({
+    data: new Uint8Array(data),
+    // Nothing is rendered, so fonts never need to be loaded into a document
+    disableFontFace: true,
+    isEvalSupported: false,
+  });
+  const abort = () => loadingTask.destroy();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  try {
+    const pdf = await loadingTask.promise;
+    const pages: ParsedPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      pages.push(await parsePage(pdf, pageNumber));
+      onProgress?.(pageNumber, pdf.numPages);
+    }
+
+    const [metadata, outline] = await Promise.all([readMetadata(pdf), readOutline(pdf)]);
+    const classified = classifyBlocks(pages);
+    // Without bookmarks, the detected headings are the next best table of contents
+    return buildDocument('pdf', classified, metadata, outline.length > 0 ? outline : undefined);
+  } finally {
+    signal?.removeEventListener('abort', abort);
+    loadingTask.destroy();
+  }
+}
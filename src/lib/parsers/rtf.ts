@@ -0,0 +1,296 @@
+import type { DocumentMetadata, ParsedDocument, TextBlock } from '@/types/parsedDocument';
+import { listMarker } from './markers';
+import { buildDocument, InvalidDocumentError, tableBlocks, toPage, type ParseOptions } from './structure';
+
+type InfoField = 'title' | 'author' | 'subject' | 'keywords';
+type DateField = 'creatim' | 'revtim';
+type Destination = 'body' | 'skip' | 'stylesheet' | 'style' | 'info' | InfoField | DateField;
+
+interface Group {
+  destination: Destination;
+  /** Fallback characters written after each \uN character, which a Unicode reader skips */
+  uc: number;
+}
+
+interface ParagraphProperties {
+  style?: number;
+  /** 0-based; 9 is body text */
+  outlineLevel?: number;
+  listLevel?: number;
+  inTable: boolean;
+}
+
+interface Style {
+  name: string;
+  outlineLevel?: number;
+}
+
+// Destinations whose text is not part of the body as read: tables of fonts, colours and lists,
+// pictures and objects, headers, footers, notes, annotations and field instructions
+const SKIPPED = new Set([
+  'fonttbl', 'colortbl', 'listtable', 'listoverridetable', 'filetbl', 'revtbl', 'rsidtbl', 'xmlnstbl',
+  'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'pgdsctbl', 'pict', 'object', 'pn',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'footnote',
+  'annotation', 'atnid', 'atnauthor', 'fldinst',
+]);
+const INFO_FIELDS = new Set<string>(['title', 'author', 'subject', 'keywords']);
+const DATE_FIELDS = new Set<string>(['creatim', 'revtim']);
+
+const CHARACTERS: Record<string, string> = {
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+  emspace: ' ', enspace: ' ', qmspace: ' ', tab: '\t', line: '\n',
+};
+const SYMBOLS: Record<string, string> = { '~': ' ', '_': '-', '-': '', '\\': '\\', '{': '{', '}': '}' };
+
+const CONTROL_WORD = /\\([a-z]{1,32})(-?\d{1,10})? ?/iy;
+const BODY_OUTLINE_LEVEL = 9;
+
+function toDecoder(label: string): TextDecoder {
+  try {
+    return new TextDecoder(label);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
+
+function toHeadingLevel(properties: ParagraphProperties, styles: Map<number, Style>): number | undefined {
+  const style = properties.style === undefined ? undefined : styles.get(properties.style);
+  const outlineLevel = properties.outlineLevel ?? style?.outlineLevel;
+  if (outlineLevel !== undefined) return outlineLevel < BODY_OUTLINE_LEVEL ? outlineLevel + 1 : undefined;
+
+  const named = style && /^(?:heading\s*(\d)|title)$/i.exec(style.name);
+  return named ? Number(named[1] ?? 1) : undefined;
+}
+
+/**
+ * Reads the paragraphs, headings, lists and tables of a Rich Text Format
+ * document. Headings are told by their outline level or a "heading N"
+ * style, and list numbers are kept as the document shows them.
+ */
+export async function parseRtf(data: ArrayBuffer, { signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  // Characters beyond ASCII are escaped in RTF, so the raw bytes are read one to one
+  const source = new TextDecoder('latin1').decode(data);
+  if (!/^\s*\{\\rtf/.test(source)) {
+    throw new InvalidDocumentError('Not an RTF document');
+  }
+
+  const pages: TextBlock[][] = [[]];
+  const styles = new Map<number, Style>();
+  const info: Partial<Record<InfoField, string>> = {};
+  const dates: Partial<Record<DateField, Record<string, number>>> = {};
+  const stack: Group[] = [];
+  let group: Group = { destination: 'body', uc: 1 };
+  let decoder = toDecoder('windows-1252');
+  let properties: ParagraphProperties = { inTable: false };
+  let style: Style & { number?: number } = { name: '' };
+  let text = '';
+  let bytes: number[] = [];
+  let skipped = 0;
+  let starred = false;
+  let cell = '';
+  let row: string[] = [];
+  let rows: string[][] = [];
+
+  const add = (block: TextBlock) => pages[pages.length - 1].push(block);
+  const breakPage = () => {
+    if (pages[pages.length - 1].length > 0) pages.push([]);
+  };
+
+  const append = (chars: string) => {
+    switch (group.destination) {
+      case 'body':
+        text += chars;
+        return;
+      case 'style':
+        style.name += chars;
+        return;
+      case 'title':
+      case 'author':
+      case 'subject':
+      case 'keywords':
+        info[group.destination] = (info[group.destination] ?? '') + chars;
+    }
+  };
+
+  // Escaped bytes are decoded together, as characters of double-byte code pages span two
+  const flushBytes = () => {
+    if (bytes.length === 0) return;
+    const decoded = decoder.decode(new Uint8Array(bytes));
+    bytes = [];
+    append(decoded);
+  };
+
+  const write = (chars: string) => {
+    flushBytes();
+    append(chars);
+  };
+
+  const takeText = () => {
+    flushBytes();
+    const content = text.split('\n').map(line => line.replace(/[^\S\n]+/g, ' ').trim()).filter(Boolean).join('\n');
+    text = '';
+    return content;
+  };
+
+  const closeTable = () => {
+    if (row.length > 0) rows.push(row);
+    tableBlocks(rows.filter(cells => cells.some(Boolean))).forEach(add);
+    row = [];
+    rows = [];
+  };
+
+  const endParagraph = () => {
+    const content = takeText();
+    if (properties.inTable) {
+      cell = cell && content ? `${cell} ${content}` : cell || content;
+      return;
+    }
+
+    closeTable();
+    if (!content) return;
+    const level = toHeadingLevel(properties, styles);
+    const marker = listMarker(content);
+    if (level) {
+      add({ kind: 'heading', text: content, level, marker });
+    } else if (marker) {
+      add({ kind: 'list-item', text: content, level: properties.listLevel ?? 0, marker });
+    } else {
+      add({ kind: 'paragraph', text: content });
+    }
+  };
+
+  const endCell = () => {
+    const content = takeText();
+    row.push((cell && content ? `${cell} ${content}` : cell || content).trim());
+    cell = '';
+  };
+
+  const handleWord = (word: string, param: number | undefined) => {
+    if (starred) {
+      // Destinations marked \* are optional; a reader skips those it does not know, which is all of them here
+      starred = false;
+      group.destination = 'skip';
+      return;
+    }
+    if (group.destination === 'skip') return;
+
+    if (SKIPPED.has(word)) {
+      group.destination = 'skip';
+    } else if (word === 'stylesheet' || word === 'info') {
+      group.destination = word;
+    } else if (group.destination === 'info' && INFO_FIELDS.has(word)) {
+      group.destination = word as InfoField;
+    } else if (group.destination === 'info' && DATE_FIELDS.has(word)) {
+      group.destination = word as DateField;
+      dates[word as DateField] = {};
+    } else if (group.destination === 'creatim' || group.destination === 'revtim') {
+      dates[group.destination][word] = param ?? 0;
+    } else if (group.destination === 'style') {
+      if (word === 's') style.number = param;
+      else if (word === 'outlinelevel') style.outlineLevel = param;
+    } else if (word === 'ansicpg' && param) {
+      decoder = toDecoder(`windows-${param}`);
+    } else if (word === 'mac') {
+      decoder = toDecoder('macintosh');
+    } else if (word === 'uc') {
+      group.uc = param ?? 1;
+    } else if (word === 'u' && param !== undefined) {
+      write(String.fromCharCode(param < 0 ? param + 0x10000 : param));
+      skipped = group.uc;
+    } else if (group.destination !== 'body') {
+      return;
+    } else if (word === 'par' || word === 'sect') {
+      endParagraph();
+    } else if (word === 'page') {
+      endParagraph();
+      if (!properties.inTable) breakPage();
+    } else if (word === 'pard') {
+      properties = { inTable: false };
+    } else if (word === 'intbl') {
+      properties.inTable = true;
+    } else if (word === 'cell' || word === 'nestcell') {
+      endCell();
+    } else if (word === 'row' || word === 'nestrow') {
+      rows.push(row);
+      row = [];
+    } else if (word === 's') {
+      properties.style = param;
+    } else if (word === 'outlinelevel') {
+      properties.outlineLevel = param;
+    } else if (word === 'ilvl') {
+      properties.listLevel = param;
+    } else if (CHARACTERS[word] !== undefined) {
+      write(CHARACTERS[word]);
+    }
+  };
+
+  const openGroup = () => {
+    flushBytes();
+    stack.push(group);
+    // Each group in the style sheet defines one style
+    group = { ...group, destination: group.destination === 'stylesheet' ? 'style' : group.destination };
+    if (group.destination === 'style') style = { name: '' };
+  };
+
+  const closeGroup = () => {
+    flushBytes();
+    if (group.destination === 'style' && style.number !== undefined && stack[stack.length - 1]?.destination === 'stylesheet') {
+      styles.set(style.number, { name: style.name.replace(/;\s*$/, '').trim(), outlineLevel: style.outlineLevel });
+    }
+    group = stack.pop() ?? group;
+  };
+
+  for (let i = 0; i < source.length;) {
+    const char = source[i];
+    if (char === '{') {
+      openGroup();
+      i++;
+    } else if (char === '}') {
+      closeGroup();
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      i++;
+    } else if (char !== '\\') {
+      if (skipped > 0) skipped--;
+      else if (group.destination !== 'skip') write(char);
+      i++;
+    } else if (/[a-z]/i.test(source[i + 1] ?? '')) {
+      CONTROL_WORD.lastIndex = i;
+      const [, word, param] = CONTROL_WORD.exec(source);
+      i = CONTROL_WORD.lastIndex;
+      // Binary data follows \binN directly
+      if (word === 'bin') i += Number(param ?? 0);
+      else handleWord(word, param === undefined ? undefined : Number(param));
+    } else if (source[i + 1] === "'") {
+      const byte = Number.parseInt(source.slice(i + 2, i + 4), 16);
+      if (skipped > 0) skipped--;
+      else if (group.destination !== 'skip' && !Number.isNaN(byte)) bytes.push(byte);
+      i += 4;
+    } else {
+      const symbol = source[i + 1];
+      if (symbol === '*') starred = true;
+      // A backslash before a line break is a paragraph mark
+      else if (symbol === '\n' || symbol === '\r') handleWord('par', undefined);
+      else if (SYMBOLS[symbol] !== undefined && group.destination !== 'skip') write(SYMBOLS[symbol]);
+      i += 2;
+    }
+  }
+  endParagraph();
+  closeTable();
+  signal?.throwIfAborted();
+
+  const toDate = (fields: Record<string, number> | undefined) => (fields?.yr
+    ? new Date(fields.yr, (fields.mo ?? 1) - 1, fields.dy ?? 1, fields.hr ?? 0, fields.min ?? 0).toISOString()
+    : undefined);
+  const metadata: Omit<DocumentMetadata, 'pageCount' | 'wordCount'> = {
+    title: info.title?.trim() || undefined,
+    author: info.author?.trim() || undefined,
+    subject: info.subject?.trim() || undefined,
+    keywords: info.keywords?.trim() || undefined,
+    createdAt: toDate(dates.creatim),
+    modifiedAt: toDate(dates.revtim),
+    encoding: decoder.encoding,
+  };
+
+  return buildDocument('rtf', pages.map((blocks, index) => toPage(index + 1, blocks)), metadata);
+}
@@ -0,0 +1,104 @@
+import type {
+  DocumentMetadata,
+  OutlineItem,
+  ParsedDocument,
+  ParsedDocumentFormat,
+  ParsedPage,
+  TextBlock,
+} from '@/types/parsedDocument';
+import { segmentSections } from './clauses';
+
+/** A file inside another, such as an email attachment */
+export interface EmbeddedFile {
+  name: string;
+  /** MIME type as declared by the containing file */
+  type: string;
+  data: ArrayBuffer;
+}
+
+export interface ParseOptions {
+  /** Called as parsing advances, e.g. after each page */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+  /** Parses a file embedded in the document; resolves to undefined for formats that cannot be read */
+  parseEmbedded?: (file: EmbeddedFile) => Promise<ParsedDocument | undefined>;
+}
+
+// Long tables are split into blocks of this many rows, about a passage's worth of text
+const TABLE_BLOCK_ROWS = 10;
+
+/** Thrown when a file is not a readable instance of the format it claims to be. */
+export class InvalidDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDocumentError';
+  }
+}
+
+export function countWords(text: string): number {
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)?.length ?? 0;
+}
+
+export function toPage(number: number, blocks: TextBlock[], size?: { width: number; height: number }): ParsedPage {
+  return {
+    number,
+    ...size,
+    blocks,
+    text: blocks.map(block => block.text).join('\n\n'),
+  };
+}
+
+/**
+ * Table blocks for rows of cells. A long table is split into blocks that each
+ * repeat its header row, so a passage from any part of it keeps the column names.
+ */
+export function tableBlocks(rows: string[][], hasHeader = true): TextBlock[] {
+  const toBlock = (cells: string[][]): TextBlock => ({
+    kind: 'table',
+    text: cells.map(row => row.join('\t')).join('\n'),
+    rows: cells,
+  });
+  const [header, body] = hasHeader && rows.length > 1 ? [rows.slice(0, 1), rows.slice(1)] : [[], rows];
+
+  const blocks: TextBlock[] = [];
+  for (let start = 0; start < body.length; start += TABLE_BLOCK_ROWS) {
+    blocks.push(toBlock([...header, ...body.slice(start, start + TABLE_BLOCK_ROWS)]));
+  }
+  return blocks;
+}
+
+/** An outline built from heading blocks, for formats without bookmarks. */
+export function outlineFromHeadings(pages: ParsedPage[]): OutlineItem[] {
+  const root: OutlineItem[] = [];
+  const stack: { level: number; item: OutlineItem }[] = [];
+
+  pages.forEach(page => page.blocks.filter(block => block.kind === 'heading').forEach((block) => {
+    const level = block.level ?? 1;
+    const item: OutlineItem = { title: block.text.replace(/\s+/g, ' '), page: page.number, items: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].item.items : root).push(item);
+    stack.push({ level, item });
+  }));
+
+  return root;
+}
+
+/** Assembles a parsed document, filling in the counts, sections and full text every format shares. */
+export function buildDocument(
+  format: ParsedDocumentFormat,
+  pages: ParsedPage[],
+  metadata: Omit<DocumentMetadata, 'pageCount' | 'wordCount'>,
+  outline: OutlineItem[] = outlineFromHeadings(pages),
+): ParsedDocument {
+  const text = pages.map(page => page.text).join('\f');
+  return {
+    format,
+    metadata: { ...metadata, pageCount: pages.length, wordCount: countWords(text) },
+    pages,
+    outline,
+    sections: segmentSections(pages),
+    text,
+  };
+}
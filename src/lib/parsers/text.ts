@@ -0,0 +1,123 @@
+import type { ParsedDocument, TextBlock } from '@/types/parsedDocument';
+import { listMarker } from './markers';
+import { buildDocument, toPage, type ParseOptions } from './structure';
+
+export interface DecodedText {
+  text: string;
+  /** WHATWG encoding label the bytes were decoded with */
+  encoding: string;
+}
+
+// Bytes inspected when guessing the encoding of a file without a byte order mark
+const SNIFF_LENGTH = 4096;
+// Share of NUL bytes in alternate positions that marks UTF-16 text without a BOM
+const UTF16_NUL_SHARE = 0.3;
+const HEADING_MAX_LENGTH = 80;
+
+function sniffUtf16(bytes: Uint8Array): 'utf-16le' | 'utf-16be' | undefined {
+  const sample = bytes.subarray(0, SNIFF_LENGTH);
+  let evenNuls = 0;
+  let oddNuls = 0;
+  sample.forEach((byte, index) => {
+    if (byte !== 0) return;
+    if (index % 2 === 0) evenNuls++;
+    else oddNuls++;
+  });
+
+  const pairs = sample.length / 2;
+  // Mostly-ASCII UTF-16 has a NUL in every other byte: the high byte, which comes second in little-endian
+  if (oddNuls > pairs * UTF16_NUL_SHARE && evenNuls < pairs * 0.05) return 'utf-16le';
+  if (evenNuls > pairs * UTF16_NUL_SHARE && oddNuls < pairs * 0.05) return 'utf-16be';
+  return undefined;
+}
+
+/**
+ * Decodes text whose encoding may not be declared: a byte order mark wins,
+ * then a declared encoding the browser knows, e.g. an HTML meta charset.
+ * Otherwise UTF-16 without a BOM is recognised by its NUL bytes, then UTF-8
+ * is tried strictly. Anything else is taken for Windows-1252, the usual
+ * encoding of legacy Western text files, which never fails to decode.
+ */
+export function decodeText(bytes: Uint8Array, declared?: string): DecodedText {
+  const decode = (encoding: string, offset = 0) => ({
+    text: new TextDecoder(encoding).decode(bytes.subarray(offset)),
+    encoding,
+  });
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return decode('utf-8', 3);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return decode('utf-16le', 2);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return decode('utf-16be', 2);
+
+  if (declared) {
+    try {
+      return decode(new TextDecoder(declared).encoding);
+    } catch {
+      // Not an encoding label the browser knows
+    }
+  }
+
+  const utf16 = sniffUtf16(bytes);
+  if (utf16) return decode(utf16);
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return decode('windows-1252');
+  }
+}
+
+const indentLevel = (line: string) => Math.floor(line.match(/^[ \t]*/)[0].replace(/\t/g, '    ').length / 2);
+
+function toBlocks(chunk: string): TextBlock[] {
+  const lines = chunk.split('\n').filter(line => line.trim());
+  if (lines.length === 0) return [];
+
+  // Markdown-style "# Heading"
+  const atx = /^(#{1,6})\s+(.+?)\s*#*$/.exec(lines[0].trim());
+  if (lines.length === 1 && atx) {
+    return [{ kind: 'heading', text: atx[2], level: atx[1].length }];
+  }
+  // Underlined heading: "Title" over "=====" (level 1) or "-----" (level 2)
+  if (lines.length === 2 && /^(=+|-+)\s*$/.test(lines[1].trim())) {
+    return [{ kind: 'heading', text: lines[0].trim(), level: lines[1].trim().startsWith('=') ? 1 : 2 }];
+  }
+
+  // A list without blank lines between items becomes one block per item; continuation lines stay with their item
+  if (listMarker(lines[0].trim())) {
+    const items: string[][] = [];
+    lines.forEach((line) => {
+      if (listMarker(line.trim()) || items.length === 0) items.push([line]);
+      else items[items.length - 1].push(line);
+    });
+    return items.map(([first, ...rest]) => ({
+      kind: 'list-item',
+      text: [first.trim(), ...rest.map(line => line.trim())].join('\n'),
+      level: indentLevel(first),
+      marker: listMarker(first.trim()),
+    }));
+  }
+
+  const text = lines.map(line => line.trim()).join('\n');
+  // A short line in capitals, e.g. "SECTION 4 – EXCLUSIONS", reads as a heading in plain text
+  if (lines.length === 1 && text.length <= HEADING_MAX_LENGTH && /\p{Lu}.*\p{Lu}/u.test(text) && text === text.toUpperCase()) {
+    return [{ kind: 'heading', text, level: 1 }];
+  }
+  return [{ kind: 'paragraph', text }];
+}
+
+/** The blocks of plain text, page by page: pages end at form feeds and blocks at blank lines. */
+export function splitText(text: string): TextBlock[][] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\f')
+    .map(page => page.split(/\n[ \t]*\n/).flatMap(toBlocks));
+}
+
+/** Reads a plain-text file in whatever encoding it turns out to be. */
+export async function parseText(data: ArrayBuffer, { signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  const { text, encoding } = decodeText(new Uint8Array(data));
+  signal?.throwIfAborted();
+
+  const pages = splitText(text).map((blocks, index) => toPage(index + 1, blocks));
+  return buildDocument('txt', pages, { encoding });
+}
@@ -0,0 +1,163 @@
+import { unzipSync } from 'fflate';
+import { DomUtils } from 'htmlparser2';
+import type { ParsedDocument, TextBlock } from '@/types/parsedDocument';
+import { child, elements, parseXml, readPackageMetadata, type XmlElement } from './ooxml';
+import { buildDocument, InvalidDocumentError, tableBlocks, toPage, type ParseOptions } from './structure';
+
+interface Sheet {
+  name: string;
+  /** Path of the worksheet part within the archive */
+  path: string;
+}
+
+const PARTS = ['xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/sharedStrings.xml', 'xl/styles.xml', 'docProps/core.xml', 'docProps/app.xml'];
+
+// Built-in number formats that show dates; see ECMA-376 Part 1, 18.8.30
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Serial 0 of each date system; the 1900 system counts a 29 February 1900 that never was
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+const FAKE_LEAP_DAY = 60;
+
+const attr = (node: XmlElement | undefined, name: string): string | undefined =>
+  node ? DomUtils.getAttributeValue(node, name) : undefined;
+
+/** The text of a shared or inline string, leaving out phonetic guides. */
+const stringText = (node: XmlElement) => DomUtils.getElementsByTagName('t', node, true)
+  .filter(t => (t.parent as XmlElement)?.name !== 'rPh')
+  .map(t => DomUtils.textContent(t))
+  .join('');
+
+/** Workbook-relative targets are resolved against xl/; absolute ones start at the archive root. */
+const resolveTarget = (target: string) => (target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`);
+
+function readSheets(workbook: XmlElement, rels: string | undefined): Sheet[] {
+  const targets = new Map(rels
+    ? DomUtils.getElementsByTagName('Relationship', parseXml(rels)).map(rel => [attr(rel, 'Id'), attr(rel, 'Target')])
+    : []);
+  return DomUtils.getElementsByTagName('sheet', workbook)
+    .filter(sheet => !['hidden', 'veryHidden'].includes(attr(sheet, 'state') ?? ''))
+    .map(sheet => ({ name: attr(sheet, 'name') ?? '', target: targets.get(attr(sheet, 'r:id')) }))
+    .filter(sheet => sheet.target)
+    .map(({ name, target }) => ({ name, path: resolveTarget(target) }));
+}
+
+/** Which cell styles show their number as a date, by style index. */
+function readDateStyles(xml: string | undefined): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!xml) return dateStyles;
+
+  const root = parseXml(xml);
+  const customDates = new Set(DomUtils.getElementsByTagName('numFmt', root)
+    .filter((format) => {
+      // Quoted text, [colours] and escaped characters are shown as they are, not as date parts
+      const code = (attr(format, 'formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+      return /[dy]/i.test(code);
+    })
+    .map(format => Number(attr(format, 'numFmtId'))));
+
+  const cellXfs = DomUtils.getElementsByTagName('cellXfs', root, true, 1)[0];
+  if (cellXfs) {
+    elements(cellXfs, 'xf').forEach((xf, index) => {
+      const id = Number(attr(xf, 'numFmtId') ?? 0);
+      if (DATE_FORMAT_IDS.has(id) || customDates.has(id)) dateStyles.add(index);
+    });
+  }
+  return dateStyles;
+}
+
+function formatDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? EPOCH_1904 : EPOCH_1900 + (serial < FAKE_LEAP_DAY ? DAY_MS : 0);
+  const iso = new Date(epoch + Math.round(serial * DAY_MS / 60000) * 60000).toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+/** Letters of a cell reference such as "AB12", as a 0-based column index. */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function readCell(cell: XmlElement, strings: string[], dateStyles: Set<number>, date1904: boolean): string {
+  const value = DomUtils.textContent(child(cell, 'v') ?? cell).trim();
+  switch (attr(cell, 't')) {
+    case 's':
+      return strings[Number(value)] ?? '';
+    case 'inlineStr':
+      return stringText(child(cell, 'is') ?? cell);
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+      return value;
+    default: {
+      if (!value) return '';
+      const number = Number(value);
+      if (Number.isNaN(number)) return value;
+      if (dateStyles.has(Number(attr(cell, 's') ?? 0))) return formatDate(number, date1904);
+      // Binary floating point shows 0.1 + 0.2 as 0.30000000000000004; Excel shows 15 digits
+      return String(Number(number.toPrecision(15)));
+    }
+  }
+}
+
+function readRows(xml: string, strings: string[], dateStyles: Set<number>, date1904: boolean): string[][] {
+  const sheetData = DomUtils.getElementsByTagName('sheetData', parseXml(xml), true, 1)[0];
+  if (!sheetData) return [];
+
+  const rows = elements(sheetData, 'row').map((row) => {
+    const cells: string[] = [];
+    elements(row, 'c').forEach((cell) => {
+      const reference = attr(cell, 'r');
+      const index = reference ? columnIndex(reference) : cells.length;
+      cells[index] = readCell(cell, strings, dateStyles, date1904).replace(/\s+/g, ' ').trim();
+    });
+    return cells;
+  }).filter(cells => cells.some(Boolean));
+
+  // Formatting often reaches further right than any value; empty columns at the end are left out
+  const width = rows.reduce((widest, cells) => cells.reduce((last, value, index) => (value ? Math.max(last, index + 1) : last), widest), 0);
+  return rows.map(cells => Array.from({ length: width }, (_, index) => cells[index] ?? ''));
+}
+
+/** Reads each visible sheet of an Excel (OOXML) workbook as a page with one table, headed by the sheet's name. */
+export async function parseXlsx(data: ArrayBuffer, { onProgress, signal }: ParseOptions = {}): Promise<ParsedDocument> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(data), {
+      filter: file => PARTS.includes(file.name) || /^xl\/worksheets\/[^/]+\.xml$/.test(file.name),
+    });
+  } catch (error) {
+    // Password-protected and legacy Excel files are not ZIP archives
+    throw new InvalidDocumentError(`Not an XLSX archive: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!files['xl/workbook.xml']) {
+    throw new InvalidDocumentError('The archive has no xl/workbook.xml');
+  }
+
+  const part = (name: string) => files[name] ? new TextDecoder().decode(files[name]) : undefined;
+  const workbook = DomUtils.getElementsByTagName('workbook', parseXml(part('xl/workbook.xml')), true, 1)[0];
+  if (!workbook) {
+    throw new InvalidDocumentError('The workbook part has no workbook');
+  }
+
+  const date1904 = ['1', 'true'].includes(attr(child(workbook, 'workbookPr'), 'date1904') ?? '');
+  const sharedStrings = part('xl/sharedStrings.xml');
+  const strings = sharedStrings ? DomUtils.getElementsByTagName('si', parseXml(sharedStrings)).map(stringText) : [];
+  const dateStyles = readDateStyles(part('xl/styles.xml'));
+  const sheets = readSheets(workbook, part('xl/_rels/workbook.xml.rels'));
+
+  const pages = sheets.map((sheet, index) => {
+    signal?.throwIfAborted();
+    const xml = part(sheet.path);
+    const blocks: TextBlock[] = [
+      { kind: 'heading', text: sheet.name, level: 1 },
+      ...(xml ? tableBlocks(readRows(xml, strings, dateStyles, date1904)) : []),
+    ];
+    onProgress?.(index + 1, sheets.length);
+    return toPage(index + 1, blocks);
+  });
+
+  return buildDocument('xlsx', pages, readPackageMetadata(part('docProps/core.xml'), part('docProps/app.xml')));
+}
@@ -0,0 +1,15 @@
+// See lib/parsers/pdf.ts for why the legacy build is used
+import { getDocument, GlobalWorkerOptions, type PDFDocumentLoadingTask } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import workerUrl from 'pdfjs-dist/legacy/build/pdf.worker.min.mjs?url';
+
+/**
+ * Opens a PDF for rendering on the page. Unlike parsing, which runs PDF.js
+ * in-process inside the parser worker, rendering needs the DOM, so PDF.js
+ * runs here and starts its own worker.
+ */
+export function loadPdf(data: ArrayBuffer): PDFDocumentLoadingTask {
+  if (!GlobalWorkerOptions.workerSrc) {
+    GlobalWorkerOptions.workerSrc = workerUrl;
+  }
+  return getDocument({ data: new Uint8Array(data), isEvalSupported: false });
+}
@@ -0,0 +1,83 @@
+import type { Bm25Index, ScoredChunk } from './bm25';
+import { splitSentences } from './chunk';
+import { tokenize } from './tokenize';
+
+/** A search hit as shown to the user: where it is and how well it matches. */
+export interface Passage {
+  text: string;
+  page: number;
+  /** Label of the section the passage is in, e.g. "Section 4.2.1 – Maternity" */
+  section?: string;
+  sectionId?: string;
+  clause?: string;
+  /** Share of the question's terms, weighted by rarity, found in the passage; 0-1 */
+  score: number;
+}
+
+export interface LocalAnswer {
+  /** Sentences quoted from the best passage; empty when nothing matched */
+  answer: string;
+  /** Best passages first */
+  passages: Passage[];
+}
+
+// Passages cited per answer, sentences quoted in it, and characters kept of each cited passage
+const PASSAGE_LIMIT = 3;
+const ANSWER_SENTENCES = 2;
+// A further sentence is only quoted when it matches at least this share of the best one
+const SECOND_SENTENCE_SHARE = 0.5;
+const SNIPPET_LENGTH = 400;
+
+const truncate = (text: string, length: number) =>
+  text.length <= length ? text : `${text.slice(0, length).replace(/\s+\S*$/, '')}…`;
+
+const flatten = (text: string) => text.replace(/\s+/g, ' ');
+
+const toPassage = ({ chunk, coverage }: ScoredChunk): Passage => ({
+  text: truncate(flatten(chunk.text), SNIPPET_LENGTH),
+  page: chunk.page,
+  section: chunk.section,
+  sectionId: chunk.sectionId,
+  clause: chunk.clause,
+  score: Math.round(coverage * 100) / 100,
+});
+
+export function searchPassages(index: Bm25Index, query: string, limit = PASSAGE_LIMIT): Passage[] {
+  return index.search(query, limit).map(toPassage);
+}
+
+/**
+ * Answers extractively: quotes the sentences of the best-matching passage that
+ * share the most (rarity-weighted) terms with the question, in their original
+ * order. Nothing is generated, so the answer is only as good as the match.
+ */
+export function answerQuestion(index: Bm25Index, question: string): LocalAnswer {
+  const hits = index.search(question, PASSAGE_LIMIT);
+  if (hits.length === 0) return { answer: '', passages: [] };
+
+  const { chunk } = hits[0];
+  const terms = new Set(tokenize(question));
+  // Quoted from the passage's body, so a heading is never part of the answer
+  const sentences = chunk.text
+    .split(/\n{2,}/)
+    .map(flatten)
+    .filter(block => !chunk.headings.includes(block))
+    .flatMap(block => splitSentences(block))
+    .map((text, position) => ({
+      text,
+      position,
+      score: [...new Set(tokenize(text))].filter(term => terms.has(term)).reduce((sum, term) => sum + index.idf(term), 0),
+    }));
+  const best = Math.max(0, ...sentences.map(sentence => sentence.score));
+  const quoted = sentences
+    .filter(sentence => sentence.score > 0 && sentence.score >= best * SECOND_SENTENCE_SHARE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, ANSWER_SENTENCES)
+    .sort((a, b) => a.position - b.position);
+
+  return {
+    // A passage that matched through its heading alone is quoted from the start
+    answer: quoted.length > 0 ? quoted.map(sentence => sentence.text).join(' ') : truncate(flatten(chunk.text), SNIPPET_LENGTH),
+    passages: hits.map(toPassage),
+  };
+}
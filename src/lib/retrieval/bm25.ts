@@ -0,0 +1,76 @@
+import type { Chunk } from './chunk';
+import { tokenize } from './tokenize';
+
+export interface ScoredChunk {
+  chunk: Chunk;
+  /** BM25 relevance; only comparable between hits of the same query */
+  score: number;
+  /** Share of the query's terms, weighted by rarity, that the chunk contains; 0-1 */
+  coverage: number;
+}
+
+export interface Bm25Options {
+  /** Term frequency saturation */
+  k1?: number;
+  /** Length normalization, 0 (none) to 1 (full) */
+  b?: number;
+}
+
+/**
+ * An Okapi BM25 index over the chunks of one document. Each chunk is indexed
+ * together with its section heading, so a question naming a section finds the
+ * passages under it.
+ */
+export class Bm25Index {
+  private readonly postings = new Map<string, Map<number, number>>();
+  private readonly lengths: number[];
+  private readonly averageLength: number;
+  private readonly k1: number;
+  private readonly b: number;
+
+  constructor(readonly chunks: Chunk[], { k1 = 1.2, b = 0.75 }: Bm25Options = {}) {
+    this.k1 = k1;
+    this.b = b;
+    this.lengths = chunks.map((chunk) => {
+      // A passage that does not start with its heading is still found by the section's name
+      const context = chunk.section && chunk.headings.length === 0 ? `${chunk.section}\n` : '';
+      const terms = tokenize(context + chunk.text);
+      terms.forEach((term) => {
+        const frequencies = this.postings.get(term) ?? new Map<number, number>();
+        frequencies.set(chunk.index, (frequencies.get(chunk.index) ?? 0) + 1);
+        this.postings.set(term, frequencies);
+      });
+      return terms.length;
+    });
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(chunks.length, 1);
+  }
+
+  /** Inverse document frequency; rare terms weigh more, unknown terms nothing. */
+  idf(term: string): number {
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    if (documentFrequency === 0) return 0;
+    return Math.log(1 + (this.chunks.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  search(query: string, limit = 5): ScoredChunk[] {
+    const terms = [...new Set(tokenize(query))];
+    const totalWeight = terms.reduce((sum, term) => sum + this.idf(term), 0);
+    const scores = new Map<number, { score: number; weight: number }>();
+
+    terms.forEach((term) => {
+      const idf = this.idf(term);
+      this.postings.get(term)?.forEach((frequency, index) => {
+        const norm = this.k1 * (1 - this.b + this.b * this.lengths[index] / this.averageLength);
+        const entry = scores.get(index) ?? { score: 0, weight: 0 };
+        entry.score += idf * (frequency * (this.k1 + 1)) / (frequency + norm);
+        entry.weight += idf;
+        scores.set(index, entry);
+      });
+    });
+
+    return [...scores.entries()]
+      .map(([index, { score, weight }]) => ({ chunk: this.chunks[index], score, coverage: totalWeight > 0 ? weight / totalWeight : 0 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
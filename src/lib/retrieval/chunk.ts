@@ -0,0 +1,145 @@
+import { countWords } from '@/lib/parsers/structure';
+import type { DocumentSection, ParsedDocument, TextBlock } from '@/types/parsedDocument';
+
+/** A passage of a document small enough to be a useful search hit. */
+export interface Chunk {
+  /** 0-based position in the document */
+  index: number;
+  /** 1-based page the passage starts on */
+  page: number;
+  /** Its blocks, separated by blank lines */
+  text: string;
+  /** Label of the section the passage starts in, e.g. "Section 4.2.1 – Maternity"; see DocumentSection */
+  section?: string;
+  sectionId?: string;
+  /** Number of the clause or definition the passage is part of, e.g. "4.2.1(a)" */
+  clause?: string;
+  /** Headings within the passage, as printed */
+  headings: string[];
+}
+
+// Chunks grow to about this many words, and blocks longer than the maximum are split at sentences
+const TARGET_WORDS = 120;
+const MAX_WORDS = 200;
+// A section that starts with a block this short, e.g. "2. BENEFITS", starts with its title rather than its text
+const TITLE_MAX_WORDS = 8;
+
+// Punctuation after a word, not after a list number such as "2." or an abbreviation such as "e.g.", followed by a capital
+const SENTENCE_END = /(?<=[\p{L}\p{N}]{2}[)"”']?[.!?;:])\s+(?=[\p{Lu}\d("“'])/u;
+
+export function splitSentences(text: string): string[] {
+  return text.split(SENTENCE_END).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+function splitLongBlock(text: string): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+  let words = 0;
+
+  splitSentences(text).forEach((sentence) => {
+    const sentenceWords = countWords(sentence);
+    if (words > 0 && words + sentenceWords > TARGET_WORDS) {
+      parts.push(current.join(' '));
+      current = [];
+      words = 0;
+    }
+    current.push(sentence);
+    words += sentenceWords;
+  });
+  if (current.length > 0) parts.push(current.join(' '));
+  return parts;
+}
+
+/** The numbered clause or definition a section is, or is part of. */
+function findClause(section: DocumentSection | undefined, parents: Map<string, DocumentSection>): string | undefined {
+  for (let current = section; current; current = parents.get(current.id)) {
+    if (current.number && (current.kind === 'clause' || current.kind === 'definition')) return current.number;
+  }
+  return undefined;
+}
+
+/**
+ * Splits a document into passages of roughly paragraph size. A passage never
+ * spans a page break or leaves the section it starts in, though it may run on
+ * into that section's sub-clauses, so each hit has one page and one section.
+ */
+export function chunkDocument(document: ParsedDocument): Chunk[] {
+  const sections = new Map<string, DocumentSection>();
+  const parents = new Map<string, DocumentSection>();
+  const collect = (items: DocumentSection[], parent?: DocumentSection) => items.forEach((section) => {
+    sections.set(section.id, section);
+    if (parent) parents.set(section.id, parent);
+    collect(section.items, section);
+  });
+  collect(document.sections);
+
+  const isWithin = (sectionId: string | undefined, ancestorId: string | undefined) => {
+    for (let current = sections.get(sectionId); current; current = parents.get(current.id)) {
+      if (current.id === ancestorId) return true;
+    }
+    return sectionId === ancestorId;
+  };
+
+  const chunks: Chunk[] = [];
+  // hasBody is false while the chunk holds nothing but headings
+  let current: { page: number; parts: string[]; words: number; hasBody: boolean; sectionId?: string; headings: string[] } | null = null;
+
+  const flush = () => {
+    if (current && current.words > 0) {
+      const section = sections.get(current.sectionId);
+      chunks.push({
+        index: chunks.length,
+        page: current.page,
+        text: current.parts.join('\n\n'),
+        section: section?.label,
+        sectionId: section?.id,
+        clause: findClause(section, parents),
+        headings: current.headings,
+      });
+    }
+    current = null;
+  };
+  const append = (page: number, block: TextBlock, text: string, isTitle: boolean) => {
+    if (!current) {
+      current = { page, parts: [], words: 0, hasBody: false, sectionId: block.sectionId, headings: [] };
+    }
+    // Headings run together into the first section below them with any text
+    if (!current.hasBody) current.sectionId = block.sectionId;
+    if (isTitle) current.headings.push(text.replace(/\s+/g, ' '));
+    current.parts.push(text);
+    current.words += countWords(text);
+    current.hasBody = current.hasBody || !isTitle;
+  };
+
+  document.pages.forEach((page) => {
+    flush();
+    page.blocks.forEach((block, blockIndex) => {
+      const words = countWords(block.text);
+      const section = sections.get(block.sectionId);
+      const startsSection = section?.page === page.number && section.block === blockIndex;
+      // Sub-clauses such as "(a)" stay with their clause; any other section starts a new passage
+      const isSubClause = section?.kind === 'clause' && section.number?.includes('(') && isWithin(section.id, current?.sectionId);
+      const isTitle = block.kind === 'heading'
+        || (startsSection && section.kind === 'clause' && !section.number?.includes('(') && words <= TITLE_MAX_WORDS);
+
+      // A heading stays with the text that follows it, as long as that text is part of its section
+      if (current && (
+        !isWithin(block.sectionId, current.sectionId)
+        || (current.hasBody && ((startsSection && !isSubClause) || current.words + words > TARGET_WORDS))
+      )) {
+        flush();
+      }
+      if (words > MAX_WORDS) {
+        splitLongBlock(block.text).forEach((part) => {
+          append(page.number, block, part, false);
+          flush();
+        });
+      } else {
+        append(page.number, block, block.text, isTitle);
+      }
+    });
+  });
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,78 @@
+import { flattenSections } from '@/lib/parsers/clauses';
+import type { DocumentSection, ParsedDocument, ParsedPage } from '@/types/parsedDocument';
+import { tokenize } from './tokenize';
+
+/** Where a quoted passage sits in a parsed document. */
+export interface PassageLocation {
+  /** 1-based */
+  page: number;
+  /** Indices into the page's blocks, in reading order */
+  blocks: number[];
+}
+
+// Share of the quote the blocks found must cover, and of its terms a single block must contain otherwise
+const MIN_COVERAGE = 0.5;
+const MIN_TERM_SHARE = 0.5;
+// Blocks shorter than this are not matched inside a quote on their own, since they would match almost anywhere
+const MIN_BLOCK_LENGTH = 20;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+function locateOnPage(page: ParsedPage, quote: string): number[] {
+  const blocks = page.blocks.map(block => normalize(block.text));
+
+  const containing = blocks.findIndex(block => block.includes(quote));
+  if (containing !== -1) return [containing];
+
+  // A quote spanning several blocks contains each of them whole, except perhaps the first and last
+  const contained = blocks.flatMap((block, index) => block.length >= MIN_BLOCK_LENGTH && quote.includes(block) ? [index] : []);
+  const covered = contained.reduce((sum, index) => sum + blocks[index].length, 0);
+  return covered >= quote.length * MIN_COVERAGE ? contained : [];
+}
+
+/**
+ * Finds a passage quoted by a citation. Backends quote with their own
+ * whitespace, punctuation and truncation, so text is compared without them;
+ * failing an exact match, the block sharing most of the quote's terms wins.
+ * The cited page is searched first, then the rest of the document.
+ */
+export function locatePassage(document: ParsedDocument, snippet: string, page?: number): PassageLocation | undefined {
+  const quote = normalize(snippet.replace(/(\.\.\.|…)\s*$/, ''));
+  if (!quote) return undefined;
+
+  const pages = [...document.pages].sort((a, b) => Number(b.number === page) - Number(a.number === page));
+  for (const candidate of pages) {
+    const blocks = locateOnPage(candidate, quote);
+    if (blocks.length > 0) return { page: candidate.number, blocks };
+  }
+
+  const terms = new Set(tokenize(snippet));
+  let best: PassageLocation | undefined;
+  let bestShare = MIN_TERM_SHARE;
+  pages.forEach(candidate => candidate.blocks.forEach((block, index) => {
+    const shared = new Set(tokenize(block.text).filter(term => terms.has(term))).size;
+    const share = terms.size > 0 ? shared / terms.size : 0;
+    if (share > bestShare) {
+      best = { page: candidate.number, blocks: [index] };
+      bestShare = share;
+    }
+  }));
+  return best;
+}
+
+/**
+ * Finds a section by its ID or, for citations from a backend, which only knows
+ * clause numbers as printed, by its number.
+ */
+export function findSection(document: ParsedDocument, { sectionId, clause }: { sectionId?: string; clause?: string }): DocumentSection | undefined {
+  const sections = flattenSections(document.sections);
+  return (sectionId && sections.find(section => section.id === sectionId))
+    || (clause && sections.find(section => section.number === clause.replace(/\.$/, '')))
+    || undefined;
+}
+
+/** The label of the section a block belongs to. */
+export function sectionLabelAt(document: ParsedDocument, { page, blocks }: PassageLocation): string | undefined {
+  const sectionId = document.pages[page - 1]?.blocks[blocks[0]]?.sectionId;
+  return sectionId && flattenSections(document.sections).find(section => section.id === sectionId)?.label;
+}
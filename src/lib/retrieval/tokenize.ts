@@ -0,0 +1,26 @@
+// Words too common to say anything about which passage answers a question
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'being', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'may', 'me', 'my', 'of', 'on', 'or', 'our', 'shall', 'should', 'so', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'this', 'those', 'to', 'under', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/** Strips common English inflections so "claims", "claimed" and "claiming" match "claim". */
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/** Search terms of a text: lower-cased, stemmed words without stop words. */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem);
+}
@@ -0,0 +1,74 @@
+/** Server-requested waits longer than this fail fast instead of blocking the user */
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryOptions {
+  /** Decides whether a failure is safe to retry */
+  shouldRetry: (error: unknown) => boolean;
+  /** Server-requested delay for a failure, e.g. from a Retry-After header */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  /** Called before sleeping ahead of the given (1-based) attempt */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Exponential backoff with "full jitter": a random delay between zero and the
+ * capped exponential step, so concurrent clients don't retry in lockstep.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  return Math.round(Math.random() * Math.min(policy.maxDelayMs, exponential));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  { shouldRetry, getRetryAfterMs, onRetry, signal }: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+
+      // Honour the server's Retry-After even when it exceeds our own backoff cap
+      const retryAfterMs = getRetryAfterMs?.(error);
+      if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+      const delayMs = retryAfterMs !== undefined ? retryAfterMs : backoffDelay(policy, attempt);
+
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
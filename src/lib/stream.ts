@@ -0,0 +1,86 @@
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface StreamMessage {
+  /** SSE `event:` field; undefined for NDJSON lines and unnamed SSE events */
+  event?: string;
+  /** Raw JSON text of the event, left to the caller to parse and validate */
+  data: string;
+  /** Set on the last message when an SSE `data: [DONE]` sentinel ended the stream; it has no data */
+  done?: true;
+}
+
+export const STREAM_ACCEPT_HEADER = 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.5';
+
+export function detectStreamFormat(contentType: string | null): StreamFormat | null {
+  const type = (contentType || '').toLowerCase();
+  if (type.includes('text/event-stream')) return 'sse';
+  if (type.includes('application/x-ndjson') || type.includes('application/jsonl')) return 'ndjson';
+  return null;
+}
+
+/**
+ * Reads a streamed response body and yields one message per SSE event or
+ * NDJSON line. An SSE `data: [DONE]` sentinel ends the stream and is passed
+ * on as a final `done` message, so callers can tell it from a cut-off stream.
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  format: StreamFormat
+): AsyncGenerator<StreamMessage> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  const separator = format === 'sse' ? /\r?\n\r?\n/ : /\r?\n/;
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (value) buffer += value;
+
+      const parts = buffer.split(separator);
+      // The last part may be an incomplete record; keep it unless the stream ended
+      buffer = done ? '' : parts.pop() ?? '';
+
+      for (const part of parts) {
+        const message = format === 'sse' ? parseSseEvent(part) : parseNdjsonLine(part);
+        if (message === 'done') {
+          yield { data: '', done: true };
+          return;
+        }
+        if (message) yield message;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseSseEvent(block: string): StreamMessage | 'done' | null {
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    if (field === 'data') dataLines.push(value);
+  }
+
+  if (dataLines.length === 0) return null;
+
+  const data = dataLines.join('\n');
+  if (data === '[DONE]') return 'done';
+
+  return { event, data };
+}
+
+function parseNdjsonLine(line: string): StreamMessage | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  return { data: trimmed };
+}
@@ -1,5 +1,11 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { ConfigService } from './services/ConfigService'
+import { QueryQueue } from './services/QueryQueue'
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Render even if config.json is missing; build-time settings are used in that case
+ConfigService.load().finally(() => {
+  QueryQueue.start();
+  createRoot(document.getElementById("root")!).render(<App />);
+});
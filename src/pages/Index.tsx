@@ -1,63 +1,66 @@
 import { useState } from 'react';
 import { DocumentUpload } from '@/components/DocumentUpload';
 import { QueryInterface } from '@/components/QueryInterface';
+import { NetworkInspector } from '@/components/NetworkInspector';
+import { QueryQueuePanel } from '@/components/QueryQueuePanel';
+import { QueryHistoryPanel } from '@/components/QueryHistoryPanel';
 import { SystemStatus } from '@/components/SystemStatus';
-import { DocumentService } from '@/services/DocumentService';
-import { Brain, FileSearch, Zap } from 'lucide-react';
+import { DocumentViewer, type ViewerTarget } from '@/components/DocumentViewer';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useActiveProfile, useConfig } from '@/hooks/use-config';
+import { useRequestMetrics } from '@/hooks/use-request-metrics';
+import { useLastQueryDuration } from '@/hooks/use-process-queries';
+import { useBackendHealth, useHealthHistory } from '@/hooks/use-backend-health';
+import { useSession } from '@/hooks/use-session';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { AuthService } from '@/services/AuthService';
+import { formatList } from '@/lib/parsers/formats';
+import type { Document } from '@/types/document';
+import type { Citation } from '@/types/query';
+import { Link } from 'react-router-dom';
+import { Brain, FileSearch, LogOut, Settings, Zap } from 'lucide-react';
 
-interface Document {
-  id: string;
-  name: string;
-  type: string;
-  url: string;
-  status: 'uploading' | 'processing' | 'ready' | 'error';
-  progress: number;
-}
-
-interface QueryResult {
-  question: string;
-  answer: string;
-  confidence: number;
-  sources: string[];
-  reasoning: string;
-  timestamp: Date;
-}
 
 const Index = () => {
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [lastQueryTime, setLastQueryTime] = useState<number>();
+  const lastQueryTime = useLastQueryDuration();
+  const backendHealth = useBackendHealth();
+  const healthHistory = useHealthHistory();
+  const activeProfile = useActiveProfile();
+  const session = useSession();
+  const { demoMode } = useConfig();
+  const requestMetrics = useRequestMetrics();
+  const isMobile = useIsMobile();
+  const [viewer, setViewer] = useState<{ document: Document; target?: ViewerTarget } | null>(null);
 
   const handleDocumentsReady = (readyDocs: Document[]) => {
     setDocuments(readyDocs);
   };
 
-  const handleQuerySubmit = async (queries: string[]): Promise<QueryResult[]> => {
-    const startTime = Date.now();
-    
-    try {
-      // Use the first ready document's URL if available
-      const documentUrl = documents.length > 0 ? documents[0].url : undefined;
-      const results = await DocumentService.processQueries(queries, documentUrl);
-      const endTime = Date.now();
-      setLastQueryTime(endTime - startTime);
-      return results;
-    } catch (error) {
-      console.error('Query processing failed:', error);
-      throw error;
-    }
+  const handleShowSource = (document: Document, citation: Citation) => {
+    setViewer({ document, target: { citation } });
   };
 
+  const latestHealth = backendHealth.data;
+  const healthIndicator = !latestHealth
+    ? { label: 'checking…', className: 'bg-muted-foreground animate-pulse' }
+    : latestHealth.state === 'healthy'
+      ? { label: `healthy (${latestHealth.latencyMs} ms)`, className: 'bg-green-500' }
+      : latestHealth.state === 'degraded'
+        ? { label: latestHealth.detail, className: 'bg-yellow-500' }
+        : { label: latestHealth.detail, className: 'bg-destructive' };
+
   const readyDocuments = documents.filter(doc => doc.status === 'ready').length;
   const totalDocuments = documents.length;
-  const systemHealth = readyDocuments === totalDocuments && totalDocuments > 0 ? 'excellent' : 
-                      readyDocuments > 0 ? 'good' : 'warning';
 
   return (
     <div className="min-h-screen bg-gradient-background">
       {/* Enhanced Header with floating animation */}
       <div className="bg-gradient-card backdrop-blur-xl border-b border-border/50 sticky top-0 z-50 shadow-card">
         <div className="container mx-auto px-4 py-6">
-          <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-center justify-between gap-4">
             <div className="flex items-center gap-4">
               <div className="h-12 w-12 bg-gradient-primary rounded-xl flex items-center justify-center shadow-glow animate-float">
                 <Brain className="h-7 w-7 text-white" />
@@ -71,15 +74,44 @@ const Index = () => {
                 </p>
               </div>
             </div>
-            <div className="hidden md:flex items-center gap-6 text-sm text-muted-foreground">
-              <div className="flex items-center gap-2 px-3 py-2 bg-white/50 rounded-lg shadow-card">
+            <div className="flex items-center gap-2 md:gap-6 text-sm text-muted-foreground">
+              <div className="hidden md:flex items-center gap-2 px-3 py-2 bg-white/50 rounded-lg shadow-card">
                 <FileSearch className="h-4 w-4 text-accent" />
                 <span className="font-medium">Semantic Search</span>
               </div>
-              <div className="flex items-center gap-2 px-3 py-2 bg-white/50 rounded-lg shadow-card">
+              <div className="hidden md:flex items-center gap-2 px-3 py-2 bg-white/50 rounded-lg shadow-card">
                 <Zap className="h-4 w-4 text-secondary" />
                 <span className="font-medium">Real-time Analysis</span>
               </div>
+              {demoMode && (
+                <Badge className="px-3 py-2 bg-amber-400 text-amber-950 hover:bg-amber-400">
+                  <span className="md:hidden">Demo</span>
+                  <span className="hidden md:inline">Demo mode – canned answers</span>
+                </Badge>
+              )}
+              <NetworkInspector />
+              <Button asChild variant="outline" className="bg-white/50 shadow-card">
+                <Link
+                  to="/settings"
+                  title={`${activeProfile.apiBaseUrl} – ${healthIndicator.label}`}
+                  aria-label={`Settings – ${activeProfile.name}`}
+                >
+                  <span className={`mr-2 h-2 w-2 rounded-full ${healthIndicator.className}`} />
+                  <Settings className="h-4 w-4 md:mr-2" />
+                  <span className="hidden md:inline">{activeProfile.name}</span>
+                </Link>
+              </Button>
+              {session && (
+                <Button
+                  variant="ghost"
+                  onClick={() => AuthService.logout(activeProfile)}
+                  title={session.username ? `Signed in as ${session.username}` : 'Signed in with an API key'}
+                  aria-label="Sign out"
+                >
+                  <LogOut className="h-4 w-4 md:mr-2" />
+                  <span className="hidden md:inline">Sign out</span>
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -92,19 +124,52 @@ const Index = () => {
           documentsProcessed={readyDocuments}
           totalDocuments={totalDocuments}
           lastQueryTime={lastQueryTime}
-          systemHealth={systemHealth}
+          totalRetries={requestMetrics.totalRetries}
+          lastQueryAttempts={requestMetrics.requests[0]?.attempts.length}
+          health={healthHistory}
         />
 
-        {/* Content Grid */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Document Upload */}
-          <DocumentUpload onDocumentsReady={handleDocumentsReady} />
+        {/* Content Grid, with the document viewer next to it while a document is open. The panel group
+            stays mounted either way, so the upload list and answers keep their state. */}
+        <ResizablePanelGroup
+          direction={isMobile ? 'vertical' : 'horizontal'}
+          style={viewer ? { height: 'calc(100vh - 10rem)' } : { height: 'auto', overflow: 'visible' }}
+          className={viewer ? 'rounded-2xl' : undefined}
+        >
+          <ResizablePanel id="content" order={1} defaultSize={55} minSize={30} style={viewer ? undefined : { overflow: 'visible' }}>
+            <div className={viewer ? 'h-full overflow-y-auto p-1 pr-4' : undefined}>
+              <div className={`grid grid-cols-1 gap-8 ${viewer ? '' : 'lg:grid-cols-2'}`}>
+                {/* Document Upload */}
+                <DocumentUpload onDocumentsReady={handleDocumentsReady} onView={document => setViewer({ document })} />
+
+                {/* Query Interface */}
+                <QueryInterface
+                  documentsReady={readyDocuments > 0}
+                  documents={documents}
+                  onShowSource={handleShowSource}
+                />
+              </div>
+            </div>
+          </ResizablePanel>
+          {viewer && (
+            <>
+              <ResizableHandle withHandle />
+              <ResizablePanel id="viewer" order={2} defaultSize={45} minSize={25} className="rounded-2xl shadow-floating">
+                <DocumentViewer
+                  key={viewer.document.id}
+                  document={viewer.document}
+                  target={viewer.target}
+                  onClose={() => setViewer(null)}
+                />
+              </ResizablePanel>
+            </>
+          )}
+        </ResizablePanelGroup>
 
-          {/* Query Interface */}
-          <QueryInterface
-            documentsReady={readyDocuments > 0}
-            onQuerySubmit={handleQuerySubmit}
-          />
+        {/* Offline Queue and History */}
+        <div className="space-y-8 mt-8">
+          <QueryQueuePanel />
+          <QueryHistoryPanel />
         </div>
 
         {/* Enhanced Features Section */}
@@ -125,7 +190,7 @@ const Index = () => {
             </div>
             <h3 className="text-xl font-bold mb-3 text-accent">Multi-format Support</h3>
             <p className="text-muted-foreground leading-relaxed">
-              Seamlessly process PDF, DOCX, and text documents with specialized parsing for legal, insurance, and compliance content
+              Seamlessly process {formatList('and')} documents with specialized parsing for legal, insurance, and compliance content
             </p>
           </div>
           
@@ -0,0 +1,54 @@
+import { Link, Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoginForm } from '@/components/LoginForm';
+import { useActiveProfile } from '@/hooks/use-config';
+import { useAuthState, useSession } from '@/hooks/use-session';
+import { Brain, Settings } from 'lucide-react';
+
+const Login = () => {
+  const profile = useActiveProfile();
+  const authState = useAuthState();
+  const session = useSession();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from?.pathname || '/';
+
+  if (authState === 'signed-in' || authState === 'not-required') {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md shadow-floating bg-gradient-card border-0 overflow-hidden">
+        <CardHeader className="bg-gradient-primary text-white">
+          <CardTitle className="flex items-center gap-3">
+            <Brain className="h-6 w-6" />
+            Sign in to IntelliQuery
+          </CardTitle>
+          <p className="text-white/80 text-sm truncate" title={profile.apiBaseUrl}>
+            {profile.name} · {profile.apiBaseUrl}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4 p-6">
+          {authState === 'expired' && (
+            <p className="text-sm text-muted-foreground">
+              {session?.method === 'api-key'
+                ? 'The backend did not accept your API key. Enter another to continue.'
+                : 'Your session has expired. Sign in again to continue.'}
+            </p>
+          )}
+          <LoginForm profile={profile} onSuccess={() => navigate(from, { replace: true })} />
+          <Button asChild variant="link" className="w-full text-muted-foreground">
+            <Link to="/settings">
+              <Settings className="mr-2 h-4 w-4" />
+              Use a different backend
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
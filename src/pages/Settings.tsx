@@ -0,0 +1,511 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/components/ui/use-toast';
+import { useConfig } from '@/hooks/use-config';
+import { ConfigService, backendProfileSchema, type AuthMethod, type ConfiguredProfile } from '@/services/ConfigService';
+import { AnswerCache, type AnswerCacheStats } from '@/services/AnswerCache';
+import { getBackend, listBackends } from '@/services/backends';
+import { ArrowLeft, Database, FlaskConical, Plus, Server, Settings as SettingsIcon, Trash2 } from 'lucide-react';
+
+type ProfileFormValues = z.input<typeof backendProfileSchema>;
+
+const emptyProfile: ProfileFormValues = {
+  id: '',
+  name: '',
+  adapter: 'hackrx',
+  apiBaseUrl: '',
+  auth: 'api-key',
+  model: '',
+  timeoutMs: 30000,
+  streaming: true,
+  retry: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000 },
+  batching: { batchSize: 10, maxConcurrency: 3 },
+};
+
+const toFormValues = (profile: ConfiguredProfile): ProfileFormValues => ({
+  id: profile.id,
+  name: profile.name,
+  adapter: profile.adapter,
+  apiBaseUrl: profile.apiBaseUrl,
+  auth: profile.auth,
+  model: profile.model || '',
+  timeoutMs: profile.timeoutMs,
+  streaming: profile.streaming,
+  retry: { ...profile.retry },
+  batching: { ...profile.batching },
+});
+
+const authLabels: Record<AuthMethod, { label: string; description: string }> = {
+  'api-key': { label: 'API key', description: 'Each user enters their own key when signing in' },
+  password: { label: 'Username and password', description: 'Exchanged for a token at POST /auth/login, refreshed at /auth/refresh' },
+  none: { label: 'None', description: 'The backend does not require authentication' },
+};
+
+const sourceLabels: Record<ConfiguredProfile['source'], string> = {
+  env: 'Build',
+  runtime: 'config.json',
+  user: 'Custom',
+};
+
+const Settings = () => {
+  const config = useConfig();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(config.activeProfileId);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(backendProfileSchema),
+    defaultValues: emptyProfile,
+  });
+
+  const [cacheStats, setCacheStats] = useState<AnswerCacheStats | null>(null);
+
+  const editingProfile = config.profiles.find(profile => profile.id === editingId);
+  const activeProfile = config.profiles.find(profile => profile.id === config.activeProfileId);
+  const adapter = form.watch('adapter');
+
+  useEffect(() => {
+    const refresh = () => {
+      AnswerCache.getStats().then(setCacheStats);
+    };
+    refresh();
+    return AnswerCache.subscribe(refresh);
+  }, []);
+
+  useEffect(() => {
+    form.reset(editingProfile ? toFormValues(editingProfile) : emptyProfile);
+    // Only reset when switching profiles, not on every config publish
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editingId]);
+
+  const handleActivate = (profileId: string) => {
+    ConfigService.setActiveProfile(profileId);
+    const profile = config.profiles.find(p => p.id === profileId);
+    toast({
+      title: "Backend profile switched",
+      description: `Queries now go to ${profile?.name ?? profileId}`,
+    });
+  };
+
+  const handleDemoModeChange = (enabled: boolean) => {
+    ConfigService.setDemoMode(enabled);
+    toast({
+      title: enabled ? "Demo mode enabled" : "Demo mode disabled",
+      description: enabled
+        ? "Queries return canned sample answers and never reach a backend"
+        : `Queries go to ${ConfigService.getActiveProfile().name}`,
+    });
+  };
+
+  const handleClearCache = async (profile?: ConfiguredProfile) => {
+    try {
+      const removed = await AnswerCache.invalidate({ profile });
+      toast({
+        title: "Answer cache cleared",
+        description: `${removed} cached answer${removed === 1 ? '' : 's'} removed${profile ? ` for ${profile.name}` : ''}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Unable to clear the answer cache",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = (values: ProfileFormValues) => {
+    const saved = ConfigService.saveProfile({
+      ...values,
+      model: values.model || undefined,
+    } as ConfiguredProfile);
+    setEditingId(saved.id);
+    toast({
+      title: "Profile saved",
+      description: `${saved.name} has been updated`,
+    });
+  };
+
+  const handleRemove = (profile: ConfiguredProfile) => {
+    ConfigService.removeProfile(profile.id);
+    if (!ConfigService.getConfig().profiles.some(p => p.id === profile.id)) {
+      setEditingId(ConfigService.getConfig().activeProfileId);
+    } else {
+      form.reset(toFormValues(ConfigService.getConfig().profiles.find(p => p.id === profile.id)));
+    }
+    toast({
+      title: "Custom settings removed",
+      description: `${profile.name} no longer uses your saved changes`,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-background">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <SettingsIcon className="h-7 w-7 text-primary" />
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Settings</h1>
+          </div>
+          <Button asChild variant="outline">
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to workspace
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card className="shadow-floating bg-gradient-card border-0 overflow-hidden">
+            <CardHeader className="bg-gradient-primary text-white">
+              <CardTitle className="flex items-center gap-3">
+                <Server className="h-6 w-6" />
+                Backend Profiles
+              </CardTitle>
+              <p className="text-white/80 text-sm">
+                Choose which backend processes your queries
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4 p-6">
+              <RadioGroup value={config.activeProfileId} onValueChange={handleActivate} className="space-y-3">
+                {config.profiles.map((profile) => (
+                  <div
+                    key={profile.id}
+                    className={`flex items-center gap-4 p-4 bg-white/70 border rounded-xl shadow-card transition-all duration-300 ${
+                      editingId === profile.id ? 'border-primary' : 'border-border/50'
+                    }`}
+                  >
+                    <RadioGroupItem value={profile.id} id={`profile-${profile.id}`} />
+                    <Label htmlFor={`profile-${profile.id}`} className="flex-1 min-w-0 cursor-pointer">
+                      <span className="font-semibold block truncate">{profile.name}</span>
+                      <span className="text-sm text-muted-foreground block truncate">
+                        {getBackend(profile.adapter).label}{profile.adapter !== 'offline' && ` · ${profile.apiBaseUrl}`}
+                      </span>
+                    </Label>
+                    <Badge variant="outline">{sourceLabels[profile.source]}</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(profile.id)}>
+                      Edit
+                    </Button>
+                  </div>
+                ))}
+              </RadioGroup>
+              <Button variant="outline" onClick={() => setEditingId(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Profile
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-floating bg-gradient-card border-0 overflow-hidden">
+            <CardHeader className="bg-gradient-accent text-white">
+              <CardTitle>{editingProfile ? `Edit ${editingProfile.name}` : 'New Profile'}</CardTitle>
+              <p className="text-white/80 text-sm">
+                Changes are stored in this browser and apply without reloading
+              </p>
+            </CardHeader>
+            <CardContent className="p-6">
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Profile ID</FormLabel>
+                        <FormControl>
+                          <Input placeholder="staging" disabled={!!editingProfile} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Display name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Staging" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="adapter"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Backend adapter</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {listBackends().map((backend) => (
+                              <SelectItem key={backend.kind} value={backend.kind}>
+                                {backend.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>{getBackend(field.value).description}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {adapter !== 'offline' && (
+                    <FormField
+                      control={form.control}
+                      name="apiBaseUrl"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>API base URL</FormLabel>
+                          <FormControl>
+                            <Input placeholder="https://api.example.com/api/v1" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {adapter === 'openai' && (
+                    <FormField
+                      control={form.control}
+                      name="model"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Model</FormLabel>
+                          <FormControl>
+                            <Input placeholder="llama3.1:8b" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {adapter !== 'offline' && (
+                    <FormField
+                      control={form.control}
+                      name="auth"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Authentication</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Object.entries(authLabels).map(([method, { label }]) => (
+                                <SelectItem key={method} value={method}>
+                                  {label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>{authLabels[field.value]?.description}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="timeoutMs"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Request timeout (ms)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1000}
+                            step={1000}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="retry.maxAttempts"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max attempts</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={10}
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormDescription>1 disables retries</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="retry.baseDelayMs"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Base backoff (ms)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              step={100}
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormDescription>Doubles each attempt, with jitter</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="batching.batchSize"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Questions per request</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={100}
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormDescription>Larger question sets are split into batches</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="batching.maxConcurrency"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Concurrent requests</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={10}
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormDescription>Batches in flight at once</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="streaming"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-lg border border-border/50 bg-white/50 p-3">
+                        <div className="space-y-1">
+                          <FormLabel>Stream answers</FormLabel>
+                          <FormDescription>Show answers as they arrive when the backend supports SSE or NDJSON</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex gap-2">
+                    <Button type="submit" className="bg-gradient-primary text-white border-0">
+                      Save Profile
+                    </Button>
+                    {editingProfile?.source === 'user' && (
+                      <Button type="button" variant="outline" onClick={() => handleRemove(editingProfile)}>
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Remove Custom Settings
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="shadow-floating bg-gradient-card border-0 overflow-hidden">
+          <CardContent className="flex items-center justify-between gap-6 p-6">
+            <div className="flex items-start gap-4">
+              <FlaskConical className="h-6 w-6 text-amber-500 shrink-0 mt-1" />
+              <div>
+                <Label htmlFor="demo-mode" className="text-lg font-semibold">Demo mode</Label>
+                <p className="text-sm text-muted-foreground">
+                  Answer with canned responses about the sample HackRx policy instead of calling a backend.
+                  Demo answers are always labelled and never reflect your uploaded documents.
+                </p>
+              </div>
+            </div>
+            <Switch id="demo-mode" checked={config.demoMode} onCheckedChange={handleDemoModeChange} />
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-floating bg-gradient-card border-0 overflow-hidden">
+          <CardContent className="flex flex-col md:flex-row md:items-center justify-between gap-6 p-6">
+            <div className="flex items-start gap-4">
+              <Database className="h-6 w-6 text-accent shrink-0 mt-1" />
+              <div>
+                <h2 className="text-lg font-semibold">Answer cache</h2>
+                <p className="text-sm text-muted-foreground">
+                  Answers are stored in this browser for {cacheStats ? Math.round(cacheStats.ttlMs / 3600000) : '–'} hours and reused
+                  when the same question is asked about the same file with the same backend.
+                </p>
+                <p className="text-sm font-medium mt-1">
+                  {cacheStats ? `${cacheStats.entries} cached answer${cacheStats.entries === 1 ? '' : 's'}` : 'Loading…'}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {activeProfile && (
+                <Button variant="outline" onClick={() => handleClearCache(activeProfile)}>
+                  Clear {activeProfile.name}
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => handleClearCache()} disabled={cacheStats?.entries === 0}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Clear all
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,176 @@
+import type { BackendProfile } from './ConfigService';
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+import type { QueryResult } from '@/types/query';
+
+interface CachedAnswer {
+  key: string;
+  profileKey: string;
+  documentHash: string;
+  question: string;
+  result: QueryResult;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+export interface AnswerCacheStats {
+  entries: number;
+  ttlMs: number;
+}
+
+const DB_NAME = 'intelliquery-answer-cache';
+const DB_VERSION = 1;
+const STORE = 'answers';
+
+const DEFAULT_TTL_HOURS = 24;
+const ttlHours = Number(import.meta.env.VITE_ANSWER_CACHE_TTL_HOURS);
+const TTL_MS = (Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+
+type Listener = () => void;
+
+/**
+ * Answers persisted in IndexedDB, keyed by the backend profile, a SHA-256 of
+ * the document bytes and the normalized question, so re-asking a question
+ * about the same file is answered without calling the backend.
+ *
+ * The cache is best effort: when IndexedDB is unavailable (e.g. some private
+ * browsing modes) every lookup is a miss and writes are dropped.
+ */
+export class AnswerCache {
+  private static db: Promise<IDBDatabase> | null = null;
+  private static listeners = new Set<Listener>();
+
+  static readonly ttlMs = TTL_MS;
+
+  /** Case, whitespace and trailing punctuation don't change what is being asked. */
+  static normalizeQuestion(question: string): string {
+    return question.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[\s?.!]+$/, '');
+  }
+
+  /**
+   * Identifies the backend that produced an answer. Editing a profile's
+   * adapter, URL or model changes the key, so answers from the old backend
+   * are not served for the new one.
+   */
+  static profileKey(profile: BackendProfile): string {
+    return [profile.id, profile.adapter, profile.apiBaseUrl, profile.model || ''].join('|');
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static async get(profile: BackendProfile, documentHash: string, question: string): Promise<QueryResult | null> {
+    try {
+      const store = (await this.open()).transaction(STORE, 'readonly').objectStore(STORE);
+      const entry: CachedAnswer | undefined = await requestToPromise(store.get(this.key(profile, documentHash, question)));
+
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        await this.delete(entry.key);
+        return null;
+      }
+      return { ...entry.result, cached: true };
+    } catch (error) {
+      console.warn('Answer cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  static async put(profile: BackendProfile, documentHash: string, result: QueryResult): Promise<void> {
+    const cachedAt = Date.now();
+    const entry: CachedAnswer = {
+      key: this.key(profile, documentHash, result.question),
+      profileKey: this.profileKey(profile),
+      documentHash,
+      question: this.normalizeQuestion(result.question),
+      result: { ...result, cached: false },
+      cachedAt,
+      expiresAt: cachedAt + TTL_MS,
+    };
+
+    try {
+      const transaction = (await this.open()).transaction(STORE, 'readwrite');
+      transaction.objectStore(STORE).put(entry);
+      await transactionDone(transaction);
+      this.notify();
+    } catch (error) {
+      console.warn('Unable to cache answer:', error);
+    }
+  }
+
+  /**
+   * Removes cached answers for a profile, a document, or both. With no
+   * filter, every cached answer is removed.
+   */
+  static async invalidate(filter: { profile?: BackendProfile; documentHash?: string } = {}): Promise<number> {
+    const profileKey = filter.profile && this.profileKey(filter.profile);
+    const transaction = (await this.open()).transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const entries: CachedAnswer[] = await requestToPromise(store.getAll());
+
+    const removed = entries.filter(entry =>
+      (!profileKey || entry.profileKey === profileKey) &&
+      (!filter.documentHash || entry.documentHash === filter.documentHash)
+    );
+    removed.forEach(entry => store.delete(entry.key));
+
+    await transactionDone(transaction);
+    this.notify();
+    return removed.length;
+  }
+
+  /** How many unexpired answers a profile has cached for a document. */
+  static async count(profile: BackendProfile, documentHash: string): Promise<number> {
+    const profileKey = this.profileKey(profile);
+    const now = Date.now();
+    try {
+      const store = (await this.open()).transaction(STORE, 'readonly').objectStore(STORE);
+      const entries: CachedAnswer[] = await requestToPromise(store.getAll());
+      return entries.filter(entry =>
+        entry.profileKey === profileKey && entry.documentHash === documentHash && entry.expiresAt > now
+      ).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  static async getStats(): Promise<AnswerCacheStats> {
+    try {
+      const store = (await this.open()).transaction(STORE, 'readonly').objectStore(STORE);
+      return { entries: await requestToPromise(store.count()), ttlMs: TTL_MS };
+    } catch {
+      return { entries: 0, ttlMs: TTL_MS };
+    }
+  }
+
+  private static key(profile: BackendProfile, documentHash: string, question: string): string {
+    return [this.profileKey(profile), documentHash, this.normalizeQuestion(question)].join('\n');
+  }
+
+  private static async delete(key: string): Promise<void> {
+    const transaction = (await this.open()).transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).delete(key);
+    await transactionDone(transaction);
+    this.notify();
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(STORE, { keyPath: 'key' });
+      }).catch((error) => {
+        // Allow a later call to try again, e.g. after the blocking tab closes
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,251 @@
+import type { BackendProfile } from './ConfigService';
+import { BackendError, overConnection } from './errors';
+import { apiUrl, createTimeoutController, readValidated } from './http';
+import { NetworkLog } from './NetworkLog';
+import { loginRequestSchema, parseResponse, refreshRequestSchema, tokenResponseSchema, validateRequest } from './schemas';
+
+export type Credentials =
+  | { method: 'password'; username: string; password: string }
+  | { method: 'api-key'; apiKey: string };
+
+export interface Session {
+  method: Credentials['method'];
+  accessToken: string;
+  refreshToken?: string;
+  /** When the access token stops working; API keys do not expire */
+  expiresAt?: number;
+  /** Who signed in; API key sessions have no username */
+  username?: string;
+  /** The backend rejected the token and it could not be refreshed */
+  expired?: boolean;
+}
+
+/**
+ * - `not-required`: the profile does not use authentication
+ * - `signed-out`: nobody has signed in to the profile in this tab
+ * - `expired`: the user signed in, but must do so again
+ */
+export type AuthState = 'not-required' | 'signed-out' | 'signed-in' | 'expired';
+
+const STORAGE_KEY = 'intelliquery.sessions';
+const LOGIN_ENDPOINT = '/auth/login';
+const REFRESH_ENDPOINT = '/auth/refresh';
+/** Refresh this long before the token expires, or halfway for shorter-lived tokens */
+const REFRESH_MARGIN_MS = 60 * 1000;
+/** Wait before retrying a refresh that failed for a reason other than auth */
+const REFRESH_RETRY_MS = 15 * 1000;
+
+type Listener = () => void;
+
+/**
+ * Per-profile sign-in sessions. Tokens live in sessionStorage, so they last as
+ * long as the tab and are never written to disk with the rest of the settings.
+ * Access tokens with an expiry are refreshed shortly before they run out.
+ */
+export class AuthService {
+  private static sessions: Record<string, Session> = AuthService.readSessions();
+  private static refreshTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private static refreshes = new Map<string, Promise<Session | undefined>>();
+  private static listeners = new Set<Listener>();
+
+  static requiresLogin(profile: BackendProfile): boolean {
+    return profile.adapter !== 'offline' && profile.auth !== 'none';
+  }
+
+  static getSession(profile: BackendProfile): Session | undefined {
+    return this.sessions[this.sessionKey(profile)];
+  }
+
+  static getAuthState(profile: BackendProfile): AuthState {
+    if (!this.requiresLogin(profile)) return 'not-required';
+
+    const session = this.getSession(profile);
+    if (!session) return 'signed-out';
+    return session.expired ? 'expired' : 'signed-in';
+  }
+
+  /** The bearer token for requests to the profile's backend, if any. */
+  static getAccessToken(profile: BackendProfile): string | undefined {
+    if (this.getAuthState(profile) !== 'signed-in') return undefined;
+
+    // Sessions restored from sessionStorage get their refresh scheduled on first use
+    const key = this.sessionKey(profile);
+    if (!this.refreshTimers.has(key)) {
+      this.scheduleRefresh(profile);
+    }
+    return this.sessions[key].accessToken;
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Signs in to the profile's backend. Passwords are exchanged for a token at
+   * /auth/login. API keys are used as the token as they are: no endpoint every
+   * backend protects can check them up front, so they are checked by the first
+   * real request, and a rejection then expires the session like any other.
+   */
+  static async login(profile: BackendProfile, credentials: Credentials, signal?: AbortSignal): Promise<Session> {
+    if (credentials.method === 'password') {
+      const body = validateRequest(loginRequestSchema, {
+        username: credentials.username,
+        password: credentials.password,
+      }, LOGIN_ENDPOINT);
+      const session = await this.requestToken(profile, LOGIN_ENDPOINT, body, signal);
+      this.store(profile, { ...session, username: credentials.username });
+      return this.getSession(profile);
+    }
+
+    const session: Session = { method: 'api-key', accessToken: credentials.apiKey.trim() };
+    this.store(profile, session);
+    return session;
+  }
+
+  static logout(profile: BackendProfile): void {
+    this.store(profile, undefined);
+  }
+
+  /**
+   * Exchanges the refresh token for a new access token. Concurrent callers
+   * share one request. Resolves to the session that is current afterwards.
+   */
+  static refresh(profile: BackendProfile): Promise<Session | undefined> {
+    const key = this.sessionKey(profile);
+    const pending = this.refreshes.get(key);
+    if (pending) return pending;
+
+    const session = this.sessions[key];
+    if (!session?.refreshToken) {
+      this.expire(profile);
+      return Promise.resolve(this.sessions[key]);
+    }
+
+    const body = validateRequest(refreshRequestSchema, { refresh_token: session.refreshToken }, REFRESH_ENDPOINT);
+    const refresh = this.requestToken(profile, REFRESH_ENDPOINT, body)
+      .then((refreshed) => {
+        // Servers that do not rotate refresh tokens omit them from the response
+        this.store(profile, { ...session, ...refreshed, refreshToken: refreshed.refreshToken ?? session.refreshToken });
+        return this.sessions[key];
+      })
+      .catch((error) => {
+        if (BackendError.from(error).kind === 'auth') {
+          this.expire(profile);
+        } else {
+          this.scheduleRefresh(profile, REFRESH_RETRY_MS);
+        }
+        return this.sessions[key];
+      })
+      .finally(() => this.refreshes.delete(key));
+
+    this.refreshes.set(key, refresh);
+    return refresh;
+  }
+
+  /**
+   * Called when the backend rejects our token. Tries a refresh first; when that
+   * is not possible the session is marked expired so the user is asked to sign in.
+   */
+  static async handleUnauthorized(profile: BackendProfile): Promise<void> {
+    const session = this.getSession(profile);
+    if (!this.requiresLogin(profile) || !session || session.expired) return;
+
+    if (session.refreshToken) {
+      await this.refresh(profile);
+    } else {
+      this.expire(profile);
+    }
+  }
+
+  /** Sessions belong to a server rather than a profile name. */
+  private static sessionKey(profile: BackendProfile): string {
+    return [profile.id, profile.apiBaseUrl].join('|');
+  }
+
+  private static async requestToken(
+    profile: BackendProfile,
+    endpoint: string,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<Session> {
+    const timeout = createTimeoutController(profile.timeoutMs, signal);
+
+    try {
+      const response = await overConnection(NetworkLog.fetch(apiUrl(profile, endpoint), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify(body),
+        signal: timeout.signal,
+      }));
+      if (!response.ok) {
+        throw BackendError.fromResponse(response);
+      }
+
+      const data = await readValidated(response, async () => parseResponse(tokenResponseSchema, await overConnection(response.text()), endpoint));
+      return {
+        method: 'password',
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+      };
+    } catch (error) {
+      throw signal?.aborted ? BackendError.cancelled(error) : BackendError.from(error);
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  private static expire(profile: BackendProfile): void {
+    const session = this.getSession(profile);
+    if (session && !session.expired) {
+      this.store(profile, { ...session, expired: true });
+    }
+  }
+
+  /**
+   * Refreshes the token before it expires, or marks the session expired at
+   * that moment when there is no refresh token to use.
+   */
+  private static scheduleRefresh(profile: BackendProfile, delayMs?: number): void {
+    const key = this.sessionKey(profile);
+    clearTimeout(this.refreshTimers.get(key));
+    this.refreshTimers.delete(key);
+
+    const session = this.sessions[key];
+    if (!session?.expiresAt || session.expired) return;
+
+    const remaining = session.expiresAt - Date.now();
+    const timer = session.refreshToken
+      ? setTimeout(() => this.refresh(profile), delayMs ?? Math.max(remaining - REFRESH_MARGIN_MS, remaining / 2))
+      : setTimeout(() => this.expire(profile), Math.max(remaining, 0));
+    this.refreshTimers.set(key, timer);
+  }
+
+  private static store(profile: BackendProfile, session: Session | undefined): void {
+    const key = this.sessionKey(profile);
+    const { [key]: _replaced, ...others } = this.sessions;
+    this.sessions = session ? { ...others, [key]: session } : others;
+
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(this.sessions));
+    } catch (error) {
+      console.warn('Unable to persist the session; it will end when the page is reloaded:', error);
+    }
+
+    this.scheduleRefresh(profile);
+    this.listeners.forEach(listener => listener());
+  }
+
+  private static readSessions(): Record<string, Session> {
+    try {
+      const stored = sessionStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Discarding unreadable sessions:', error);
+      return {};
+    }
+  }
+}
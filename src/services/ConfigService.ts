@@ -0,0 +1,261 @@
+import { z } from 'zod';
+import { BACKEND_KINDS } from './backends/types';
+
+const urlSchema = z.string().url();
+
+/**
+ * How users obtain a token for a profile: signing in with a username and
+ * password, entering their own API key, or not at all.
+ */
+export const AUTH_METHODS = ['none', 'password', 'api-key'] as const;
+
+export type AuthMethod = typeof AUTH_METHODS[number];
+
+export const retryPolicySchema = z.object({
+  /** Total attempts including the first; 1 disables retries */
+  maxAttempts: z.number().int().min(1).max(10).default(3),
+  baseDelayMs: z.number().int().min(0).max(60000).default(500),
+  maxDelayMs: z.number().int().min(0).max(120000).default(8000),
+});
+
+export const batchPolicySchema = z.object({
+  /** Questions sent per request */
+  batchSize: z.number().int().min(1).max(100).default(10),
+  /** Requests in flight at once, across all documents */
+  maxConcurrency: z.number().int().min(1).max(10).default(3),
+});
+
+export const backendProfileSchema = z.object({
+  id: z.string().trim().min(1, 'Profile ID is required'),
+  name: z.string().trim().min(1, 'Profile name is required'),
+  adapter: z.enum(BACKEND_KINDS).default('hackrx'),
+  apiBaseUrl: z.string().trim().transform(url => url.replace(/\/+$/, '')),
+  auth: z.enum(AUTH_METHODS).default('api-key'),
+  /** Model name sent to OpenAI-compatible servers */
+  model: z.string().trim().optional(),
+  timeoutMs: z.number().int().min(1000).max(300000).default(30000),
+  /** Ask the backend for SSE/NDJSON answers; plain JSON responses still work */
+  streaming: z.boolean().default(true),
+  retry: retryPolicySchema.default({}),
+  batching: batchPolicySchema.default({}),
+}).superRefine((profile, ctx) => {
+  // The offline adapter never makes network calls, so it is the only one that may omit a URL
+  if (profile.adapter !== 'offline' && !urlSchema.safeParse(profile.apiBaseUrl).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiBaseUrl'], message: 'API base URL must be a valid URL' });
+  }
+});
+
+export type BackendProfile = z.infer<typeof backendProfileSchema>;
+
+export type ProfileSource = 'env' | 'runtime' | 'user';
+
+export interface ConfiguredProfile extends BackendProfile {
+  source: ProfileSource;
+}
+
+const runtimeConfigSchema = z.object({
+  activeProfileId: z.string().optional(),
+  demoMode: z.boolean().optional(),
+  profiles: z.array(backendProfileSchema).default([]),
+});
+
+const userOverridesSchema = z.object({
+  activeProfileId: z.string().optional(),
+  demoMode: z.boolean().optional(),
+  profiles: z.array(backendProfileSchema).default([]),
+});
+
+type UserOverrides = z.infer<typeof userOverridesSchema>;
+
+export interface AppConfig {
+  profiles: ConfiguredProfile[];
+  activeProfileId: string;
+  /** When on, queries return canned sample answers instead of calling any backend */
+  demoMode: boolean;
+}
+
+const STORAGE_KEY = 'intelliquery.config';
+const RUNTIME_CONFIG_URL = '/config.json';
+const DEFAULT_PROFILE_ID = 'default';
+// Settings of the env profile without a default in the schema
+const ENV_FALLBACKS = { name: 'Default', apiBaseUrl: 'http://localhost:8000/api/v1' };
+
+type Listener = (config: AppConfig) => void;
+
+export class ConfigService {
+  private static envProfile: ConfiguredProfile = ConfigService.readEnvProfile();
+  private static runtimeProfiles: ConfiguredProfile[] = [];
+  private static runtimeActiveProfileId?: string;
+  private static runtimeDemoMode?: boolean;
+  private static overrides: UserOverrides = ConfigService.readOverrides();
+  private static snapshot: AppConfig = ConfigService.buildSnapshot();
+  private static listeners = new Set<Listener>();
+
+  /**
+   * Loads the optional runtime config.json served next to the app so that a
+   * deployment can point at a different backend without rebuilding.
+   */
+  static async load(): Promise<AppConfig> {
+    try {
+      const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+      const contentType = response.headers.get('Content-Type') || '';
+
+      if (response.ok && contentType.includes('application/json')) {
+        const parsed = runtimeConfigSchema.safeParse(await response.json());
+        if (parsed.success) {
+          this.runtimeProfiles = parsed.data.profiles.map(profile => ({ ...profile, source: 'runtime' as const }));
+          this.runtimeActiveProfileId = parsed.data.activeProfileId;
+          this.runtimeDemoMode = parsed.data.demoMode;
+        } else {
+          console.warn('Ignoring invalid runtime config:', parsed.error.flatten());
+        }
+      }
+    } catch (error) {
+      console.warn('Runtime config not available, using build-time settings:', error);
+    }
+
+    this.publish();
+    return this.snapshot;
+  }
+
+  static getConfig(): AppConfig {
+    return this.snapshot;
+  }
+
+  static getActiveProfile(): ConfiguredProfile {
+    const { profiles, activeProfileId } = this.snapshot;
+    return profiles.find(profile => profile.id === activeProfileId) || profiles[0];
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static setActiveProfile(profileId: string): void {
+    if (!this.snapshot.profiles.some(profile => profile.id === profileId)) {
+      throw new Error(`Unknown backend profile: ${profileId}`);
+    }
+
+    this.overrides = { ...this.overrides, activeProfileId: profileId };
+    this.persistOverrides();
+    this.publish();
+  }
+
+  static setDemoMode(enabled: boolean): void {
+    this.overrides = { ...this.overrides, demoMode: enabled };
+    this.persistOverrides();
+    this.publish();
+  }
+
+  /**
+   * Saves a user-defined profile, or a user override of an env/runtime
+   * profile when the ID matches one of them.
+   */
+  static saveProfile(profile: BackendProfile): ConfiguredProfile {
+    const validated = backendProfileSchema.parse(profile);
+    const profiles = this.overrides.profiles.filter(existing => existing.id !== validated.id);
+
+    this.overrides = { ...this.overrides, profiles: [...profiles, validated] };
+    this.persistOverrides();
+    this.publish();
+
+    return this.getConfig().profiles.find(existing => existing.id === validated.id);
+  }
+
+  /**
+   * Removes the user's copy of a profile. Env and runtime profiles fall back to
+   * their original values rather than disappearing.
+   */
+  static removeProfile(profileId: string): void {
+    this.overrides = {
+      ...this.overrides,
+      profiles: this.overrides.profiles.filter(profile => profile.id !== profileId),
+    };
+    this.persistOverrides();
+    this.publish();
+  }
+
+  static resetOverrides(): void {
+    this.overrides = { profiles: [] };
+    localStorage.removeItem(STORAGE_KEY);
+    this.publish();
+  }
+
+  /**
+   * The `default` profile, from the build-time environment. It is validated
+   * like any other profile; invalid values fall back to their defaults one by
+   * one, with a warning, rather than stopping the app from loading.
+   */
+  private static readEnvProfile(): ConfiguredProfile {
+    const env = import.meta.env;
+    let values: Record<string, unknown> = {
+      id: DEFAULT_PROFILE_ID,
+      name: env.VITE_API_PROFILE_NAME || ENV_FALLBACKS.name,
+      adapter: env.VITE_API_ADAPTER || undefined,
+      apiBaseUrl: env.VITE_API_BASE_URL || ENV_FALLBACKS.apiBaseUrl,
+      auth: env.VITE_API_AUTH || undefined,
+      model: env.VITE_API_MODEL || undefined,
+      timeoutMs: Number(env.VITE_REQUEST_TIMEOUT_MS) || undefined,
+      streaming: env.VITE_API_STREAMING !== 'false',
+      retry: { maxAttempts: Number(env.VITE_RETRY_MAX_ATTEMPTS) || undefined },
+      batching: {
+        batchSize: Number(env.VITE_BATCH_SIZE) || undefined,
+        maxConcurrency: Number(env.VITE_MAX_CONCURRENCY) || undefined,
+      },
+    };
+
+    // Each pass drops the settings found invalid; the fallbacks are valid, so this ends
+    for (;;) {
+      const parsed = backendProfileSchema.safeParse(values);
+      if (parsed.success) return { ...parsed.data, source: 'env' };
+
+      console.warn('Ignoring invalid settings from the environment:', parsed.error.flatten());
+      const invalid = new Set(parsed.error.issues.map(issue => issue.path[0]));
+      values = { ...ENV_FALLBACKS, ...Object.fromEntries(Object.entries(values).filter(([key]) => !invalid.has(key))) };
+    }
+  }
+
+  private static readOverrides(): UserOverrides {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return { profiles: [] };
+
+      const parsed = userOverridesSchema.safeParse(JSON.parse(stored));
+      if (parsed.success) return parsed.data;
+
+      console.warn('Discarding invalid saved settings:', parsed.error.flatten());
+    } catch (error) {
+      console.warn('Unable to read saved settings:', error);
+    }
+    return { profiles: [] };
+  }
+
+  private static persistOverrides(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.overrides));
+  }
+
+  private static buildSnapshot(): AppConfig {
+    const merged = new Map<string, ConfiguredProfile>();
+
+    // Later sources win: env defaults, then runtime config.json, then the user's own edits
+    merged.set(this.envProfile.id, this.envProfile);
+    this.runtimeProfiles.forEach(profile => merged.set(profile.id, profile));
+    this.overrides.profiles.forEach(profile => merged.set(profile.id, { ...profile, source: 'user' }));
+
+    const profiles = Array.from(merged.values());
+    const candidates = [this.overrides.activeProfileId, this.runtimeActiveProfileId, DEFAULT_PROFILE_ID];
+    const activeProfileId = candidates.find(id => id && merged.has(id)) || profiles[0].id;
+
+    const demoMode = this.overrides.demoMode ?? this.runtimeDemoMode ?? import.meta.env.VITE_DEMO_MODE === 'true';
+
+    return { profiles, activeProfileId, demoMode };
+  }
+
+  private static publish(): void {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
@@ -0,0 +1,172 @@
+import type { ParseFailureReason, ParserRequest, ParserResponse } from '@/workers/parser.worker';
+import { formatOf } from '@/lib/parsers/formats';
+import type { ParsedDocument } from '@/types/parsedDocument';
+
+export type { ParseFailureReason };
+
+export type ParseStatus = 'parsing' | 'parsed' | 'failed';
+
+export interface ParseState {
+  status: ParseStatus;
+  /** 0-100 */
+  progress: number;
+  document?: ParsedDocument;
+  error?: ParseError;
+}
+
+export interface ParseOptions {
+  signal?: AbortSignal;
+}
+
+const failureMessages: Record<ParseFailureReason, string> = {
+  password: 'The file is password-protected',
+  invalid: 'The file is damaged or not a valid document',
+  unsupported: 'This file type cannot be read in the browser',
+  cancelled: 'Reading the file was cancelled',
+  unknown: 'The file could not be read',
+};
+
+export class ParseError extends Error {
+  constructor(public readonly reason: ParseFailureReason, public readonly detail?: string) {
+    super(failureMessages[reason]);
+    this.name = 'ParseError';
+  }
+}
+
+interface PendingParse {
+  documentId: string;
+  resolve: (document: ParsedDocument) => void;
+  reject: (error: ParseError) => void;
+}
+
+type Listener = () => void;
+
+/**
+ * Extracts the text and layout of uploaded documents in a web worker, so
+ * previews, local search and citation highlighting do not depend on the
+ * backend. Results are kept in memory per document for the session.
+ */
+export class DocumentParser {
+  private static worker: Worker | null = null;
+  private static pending = new Map<string, PendingParse>();
+  private static states = new Map<string, ParseState>();
+  // Original files, for viewers that render the document itself rather than its text
+  private static files = new Map<string, File>();
+  private static listeners = new Set<Listener>();
+
+  static isSupported(file: { name: string; type: string }): boolean {
+    return formatOf(file) !== undefined;
+  }
+
+  static getState(documentId: string): ParseState | undefined {
+    return this.states.get(documentId);
+  }
+
+  /** The file a document was parsed from, while its parsed content is kept. */
+  static getFile(documentId: string): File | undefined {
+    return this.files.get(documentId);
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Parses a file on behalf of a document; progress and the result are published as its state. */
+  static async parse(documentId: string, file: File, { signal }: ParseOptions = {}): Promise<ParsedDocument> {
+    this.files.set(documentId, file);
+    this.setState(documentId, { status: 'parsing', progress: 0 });
+
+    try {
+      const format = formatOf(file)?.format;
+      if (!format) {
+        throw new ParseError('unsupported', file.type);
+      }
+
+      const data = await file.arrayBuffer();
+      signal?.throwIfAborted();
+
+      const requestId = crypto.randomUUID();
+      const document = await new Promise<ParsedDocument>((resolve, reject) => {
+        this.pending.set(requestId, { documentId, resolve, reject });
+        signal?.addEventListener('abort', () => this.post({ type: 'cancel', id: requestId }), { once: true });
+        this.post({ type: 'parse', id: requestId, format, data }, [data]);
+      });
+
+      this.setState(documentId, { status: 'parsed', progress: 100, document });
+      return document;
+    } catch (error) {
+      const parseError = error instanceof ParseError
+        ? error
+        : signal?.aborted ? new ParseError('cancelled') : new ParseError('unknown', String(error));
+      // A forgotten document stays forgotten
+      if (this.states.has(documentId)) {
+        this.setState(documentId, { status: 'failed', progress: 0, error: parseError });
+      }
+      throw parseError;
+    }
+  }
+
+  /** Drops a document's parsed content, e.g. when it is removed. */
+  static forget(documentId: string): void {
+    this.files.delete(documentId);
+    if (!this.states.delete(documentId)) return;
+
+    this.pending.forEach((parse, requestId) => {
+      if (parse.documentId === documentId) {
+        this.pending.delete(requestId);
+        this.post({ type: 'cancel', id: requestId });
+        parse.reject(new ParseError('cancelled'));
+      }
+    });
+    this.notify();
+  }
+
+  private static post(request: ParserRequest, transfer: Transferable[] = []): void {
+    this.getWorker().postMessage(request, transfer);
+  }
+
+  private static getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/parser.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<ParserResponse>) => this.handleResponse(event.data));
+      // A crashed worker takes its in-flight parses with it; the next parse starts a fresh one
+      this.worker.addEventListener('error', (event) => {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(parse => parse.reject(new ParseError('unknown', event.message)));
+        this.pending.clear();
+      });
+    }
+    return this.worker;
+  }
+
+  private static handleResponse(response: ParserResponse): void {
+    const parse = this.pending.get(response.id);
+    if (!parse) return;
+
+    switch (response.type) {
+      case 'progress':
+        this.setState(parse.documentId, { status: 'parsing', progress: (response.done / response.total) * 100 });
+        return;
+      case 'parsed':
+        this.pending.delete(response.id);
+        parse.resolve(response.document);
+        return;
+      case 'failed':
+        this.pending.delete(response.id);
+        parse.reject(new ParseError(response.reason, response.message));
+    }
+  }
+
+  private static setState(documentId: string, state: ParseState): void {
+    this.states.set(documentId, state);
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
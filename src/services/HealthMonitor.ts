@@ -0,0 +1,132 @@
+import type { BackendProfile } from './ConfigService';
+import { getBackend } from './backends';
+import { BackendError, type BackendErrorKind } from './errors';
+
+/** 'unknown' until the first check of a profile completes */
+export type HealthState = 'unknown' | 'healthy' | 'degraded' | 'unauthorized' | 'down';
+
+export interface HealthSample {
+  checkedAt: number;
+  state: Exclude<HealthState, 'unknown'>;
+  /** Round trip of the probe; absent when the backend could not be reached */
+  latencyMs?: number;
+  /** Why the backend is not healthy */
+  detail?: string;
+  errorKind?: BackendErrorKind;
+}
+
+export interface HealthSnapshot {
+  state: HealthState;
+  latest?: HealthSample;
+  /** Most recent first, capped to the last MAX_SAMPLES checks */
+  samples: HealthSample[];
+  /** Share of checks this session that found the backend up (healthy or degraded), 0-1 */
+  sessionUptime?: number;
+  /** The same over the last UPTIME_WINDOW_MS */
+  windowUptime?: number;
+  /** Mean probe latency over the window */
+  averageLatencyMs?: number;
+}
+
+export const UPTIME_WINDOW_MS = 15 * 60 * 1000;
+const MAX_SAMPLES = 200;
+
+const EMPTY_SNAPSHOT: HealthSnapshot = { state: 'unknown', samples: [] };
+
+interface ProfileHistory {
+  checks: number;
+  upChecks: number;
+  snapshot: HealthSnapshot;
+}
+
+type Listener = () => void;
+
+const isUp = (sample: HealthSample) => sample.state === 'healthy' || sample.state === 'degraded';
+
+/**
+ * Health history per backend profile for the current session. Checks are
+ * scheduled by the caller (the backend health query polls on an interval);
+ * the monitor runs each probe, classifies it and derives uptime from the
+ * results.
+ */
+export class HealthMonitor {
+  private static histories = new Map<string, ProfileHistory>();
+  private static listeners = new Set<Listener>();
+
+  static getSnapshot(profile: BackendProfile): HealthSnapshot {
+    return this.histories.get(this.historyKey(profile))?.snapshot ?? EMPTY_SNAPSHOT;
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Probes the profile's backend and records the outcome. Failures are part of
+   * the history, so this only rejects when `signal` cancels the probe.
+   */
+  static async check(profile: BackendProfile, signal?: AbortSignal): Promise<HealthSample> {
+    const checkedAt = Date.now();
+    let sample: HealthSample;
+
+    try {
+      const result = await getBackend(profile.adapter).checkHealth(profile, signal);
+      sample = { checkedAt, state: result.status, latencyMs: result.latencyMs, detail: result.detail };
+    } catch (error) {
+      const backendError = BackendError.from(error);
+      if (backendError.kind === 'cancelled' || signal?.aborted) {
+        throw backendError;
+      }
+
+      sample = {
+        checkedAt,
+        // The server answered, but it does not accept our credentials. Only a real request ends the session:
+        // many backends protect their health endpoint differently from the API itself
+        state: backendError.kind === 'auth' ? 'unauthorized' : 'down',
+        detail: backendError.title,
+        errorKind: backendError.kind,
+      };
+    }
+
+    this.record(this.historyKey(profile), sample);
+    return sample;
+  }
+
+  /** Pointing a profile at another server starts a new history. */
+  private static historyKey(profile: BackendProfile): string {
+    return [profile.id, profile.adapter, profile.apiBaseUrl].join('|');
+  }
+
+  private static record(key: string, sample: HealthSample): void {
+    const history = this.histories.get(key) ?? { checks: 0, upChecks: 0, snapshot: EMPTY_SNAPSHOT };
+    const checks = history.checks + 1;
+    const upChecks = history.upChecks + (isUp(sample) ? 1 : 0);
+    const samples = [sample, ...history.snapshot.samples].slice(0, MAX_SAMPLES);
+
+    const windowSamples = samples.filter(candidate => candidate.checkedAt >= sample.checkedAt - UPTIME_WINDOW_MS);
+    const latencies = windowSamples.filter(candidate => candidate.latencyMs !== undefined).map(candidate => candidate.latencyMs);
+
+    this.histories.set(key, {
+      checks,
+      upChecks,
+      snapshot: {
+        state: sample.state,
+        latest: sample,
+        samples,
+        sessionUptime: upChecks / checks,
+        windowUptime: windowSamples.filter(isUp).length / windowSamples.length,
+        averageLatencyMs: latencies.length > 0
+          ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+          : undefined,
+      },
+    });
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,101 @@
+import type { LocalAnswer, Passage } from '@/lib/retrieval/answer';
+import type { ParsedDocument } from '@/types/parsedDocument';
+import type { SearchRequest, SearchResponse, SearchResults } from '@/workers/search.worker';
+
+export type { LocalAnswer, Passage };
+
+// The fields of a request besides its type and the ID that pairs it with its response
+type RequestFields<T extends SearchRequest['type']> = Omit<Extract<SearchRequest, { type: T }>, 'type' | 'id'>;
+
+interface PendingRequest {
+  resolve: (result: SearchResults[keyof SearchResults]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A BM25 full-text index over parsed documents, kept in a web worker so
+ * indexing and searching large documents does not block the page. Indexes
+ * live in memory for the session, like the parsed documents they are built from.
+ */
+export class LocalIndex {
+  private static worker: Worker | null = null;
+  private static pending = new Map<string, PendingRequest>();
+  // Indexed, or being indexed, per document; searches wait for indexing to finish
+  private static indexing = new Map<string, Promise<void>>();
+
+  /** Whether a document has been handed to the index, even if indexing has not finished yet. */
+  static has(documentId: string): boolean {
+    return this.indexing.has(documentId);
+  }
+
+  /** Indexes a document, replacing any earlier index for it; resolves with the number of passages. */
+  static async add(documentId: string, document: ParsedDocument): Promise<number> {
+    const request = this.request('index', { documentId, document });
+    const indexed = request.then(() => undefined);
+    this.indexing.set(documentId, indexed);
+    // A failed index leaves the document unindexed, unless it was re-indexed in the meantime
+    indexed.catch(() => {
+      if (this.indexing.get(documentId) === indexed) this.indexing.delete(documentId);
+    });
+    return (await request).chunks;
+  }
+
+  static async remove(documentId: string): Promise<void> {
+    if (!this.indexing.delete(documentId)) return;
+    await this.request('remove', { documentId });
+  }
+
+  /** The passages of a document that best match a query, best first. */
+  static async search(documentId: string, query: string, limit?: number): Promise<Passage[]> {
+    await this.ready(documentId);
+    return this.request('search', { documentId, query, limit });
+  }
+
+  /** Quotes the sentences of a document that best answer a question, with the passages they came from. */
+  static async answer(documentId: string, question: string): Promise<LocalAnswer> {
+    await this.ready(documentId);
+    return this.request('answer', { documentId, question });
+  }
+
+  private static async ready(documentId: string): Promise<void> {
+    const indexed = this.indexing.get(documentId);
+    if (!indexed) throw new Error('This document has not been indexed');
+    await indexed;
+  }
+
+  private static request<T extends SearchRequest['type']>(type: T, fields: RequestFields<T>): Promise<SearchResults[T]> {
+    const id = crypto.randomUUID();
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as PendingRequest['resolve'], reject });
+      this.getWorker().postMessage({ ...fields, type, id } as SearchRequest);
+    });
+  }
+
+  private static getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<SearchResponse>) => this.handleResponse(event.data));
+      // Indexes die with the worker, so every document has to be indexed again
+      this.worker.addEventListener('error', (event) => {
+        this.worker?.terminate();
+        this.worker = null;
+        this.indexing.clear();
+        this.pending.forEach(request => request.reject(new Error(event.message)));
+        this.pending.clear();
+      });
+    }
+    return this.worker;
+  }
+
+  private static handleResponse(response: SearchResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    this.pending.delete(response.id);
+    if (response.type === 'result') {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  }
+}
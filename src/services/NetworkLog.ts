@@ -0,0 +1,229 @@
+export type NetworkEntryState = 'pending' | 'complete' | 'failed';
+
+export interface NetworkValidation {
+  valid: boolean;
+  /** Contract violations, one per field */
+  issues: string[];
+}
+
+export interface NetworkEntry {
+  id: string;
+  /** Epoch ms */
+  startedAt: number;
+  method: string;
+  url: string;
+  /** Credentials are redacted */
+  requestHeaders: Record<string, string>;
+  /** Credentials are redacted; multipart bodies are summarized one field per line */
+  requestBody?: string;
+  requestBodyType?: 'text' | 'form-data' | 'binary';
+  state: NetworkEntryState;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  /** Raw body as received, cut off after MAX_BODY_LENGTH characters */
+  responseBody?: string;
+  responseTruncated?: boolean;
+  /** Until the response headers arrived */
+  waitMs?: number;
+  /** Until the response body was read completely, or the request failed */
+  durationMs?: number;
+  error?: string;
+  /** Set once the caller has checked the body against the API contract */
+  validation?: NetworkValidation;
+}
+
+export interface NetworkRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: BodyInit | null;
+}
+
+export interface NetworkResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+}
+
+const MAX_ENTRIES = 200;
+const MAX_BODY_LENGTH = 256 * 1024;
+const REDACTED = '[redacted]';
+const SENSITIVE_HEADERS = new Set(['authorization', 'cookie', 'set-cookie', 'x-api-key', 'api-key']);
+const SENSITIVE_FIELDS = new Set(['password', 'api_key', 'apiKey', 'access_token', 'refresh_token']);
+const SENSITIVE_FIELD_PATTERN = /"(password|api_key|apiKey|access_token|refresh_token)"\s*:/;
+
+type Listener = () => void;
+
+/**
+ * Every call made to a backend during the session, newest first, for the
+ * network inspector. Credentials are redacted before anything is stored.
+ */
+export class NetworkLog {
+  private static entries: NetworkEntry[] = [];
+  private static responses = new WeakMap<Response, string>();
+  private static listeners = new Set<Listener>();
+  private static nextId = 1;
+
+  static getEntries(): NetworkEntry[] {
+    return this.entries;
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  /** Records the start of a request and returns its entry ID. */
+  static start({ method, url, headers = {}, body }: NetworkRequest): string {
+    const id = String(this.nextId++);
+    const entry: NetworkEntry = {
+      id,
+      startedAt: Date.now(),
+      method: method.toUpperCase(),
+      url,
+      requestHeaders: sanitizeHeaders(headers),
+      requestBody: describeBody(body),
+      requestBodyType: bodyType(body),
+      state: 'pending',
+    };
+    this.entries = [entry, ...this.entries].slice(0, MAX_ENTRIES);
+    this.notify();
+    return id;
+  }
+
+  static receive(id: string, { status, statusText, headers }: NetworkResponse): void {
+    this.update(id, entry => ({
+      status,
+      statusText,
+      responseHeaders: sanitizeHeaders(headers),
+      waitMs: Date.now() - entry.startedAt,
+    }));
+  }
+
+  static complete(id: string, body: string): void {
+    this.update(id, entry => ({
+      state: 'complete',
+      responseBody: sanitizeBody(body.slice(0, MAX_BODY_LENGTH)),
+      responseTruncated: body.length > MAX_BODY_LENGTH,
+      durationMs: Date.now() - entry.startedAt,
+    }));
+  }
+
+  static fail(id: string, error: unknown): void {
+    this.update(id, entry => ({
+      state: 'failed',
+      error: (error as Error)?.message || String(error),
+      durationMs: Date.now() - entry.startedAt,
+    }));
+  }
+
+  /**
+   * Notes whether a response body matched the API contract. `target` is an
+   * entry ID or a response fetched through `fetch`.
+   */
+  static recordValidation(target: string | Response, issues: string[]): void {
+    const id = typeof target === 'string' ? target : this.responses.get(target);
+    if (id) {
+      this.update(id, () => ({ validation: { valid: issues.length === 0, issues } }));
+    }
+  }
+
+  /**
+   * A logging drop-in for `fetch`. The body is read from a clone, so streamed
+   * responses reach the caller as soon as they would without logging.
+   */
+  static async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const id = this.start({
+      method: init.method ?? 'GET',
+      url,
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: init.body,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      this.fail(id, error);
+      throw error;
+    }
+
+    this.responses.set(response, id);
+    this.receive(id, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+    });
+    response.clone().text().then(
+      body => this.complete(id, body),
+      error => this.fail(id, error)
+    );
+    return response;
+  }
+
+  private static update(id: string, changes: (entry: NetworkEntry) => Partial<NetworkEntry>): void {
+    this.entries = this.entries.map(entry => entry.id === id ? { ...entry, ...changes(entry) } : entry);
+    this.notify();
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function sanitizeHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+    name,
+    SENSITIVE_HEADERS.has(name.toLowerCase()) ? value.replace(/^(Bearer |Basic )?.*$/i, `$1${REDACTED}`) : value,
+  ]));
+}
+
+/**
+ * Redacts credentials in JSON bodies, including each line of NDJSON and SSE
+ * streams. Bodies without credentials are kept byte for byte.
+ */
+function sanitizeBody(body: string): string {
+  if (!SENSITIVE_FIELD_PATTERN.test(body)) return body;
+
+  return body.split('\n').map((line) => {
+    const prefix = /^data: ?/.exec(line)?.[0] ?? '';
+    const json = line.slice(prefix.length);
+    if (!json.trimStart().startsWith('{')) return line;
+
+    try {
+      return prefix + JSON.stringify(JSON.parse(json), (key, value) => SENSITIVE_FIELDS.has(key) ? REDACTED : value);
+    } catch {
+      return line;
+    }
+  }).join('\n');
+}
+
+function describeBody(body: BodyInit | null | undefined): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return sanitizeBody(body);
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof FormData) return describeFormData(body);
+  return `[${body.constructor?.name ?? 'binary'} body]`;
+}
+
+function bodyType(body: BodyInit | null | undefined): NetworkEntry['requestBodyType'] {
+  if (body === undefined || body === null) return undefined;
+  if (body instanceof FormData) return 'form-data';
+  return typeof body === 'string' || body instanceof URLSearchParams ? 'text' : 'binary';
+}
+
+function describeFormData(form: FormData): string {
+  return Array.from(form.entries())
+    .map(([name, value]) => typeof value === 'string'
+      ? `${name}=${value}`
+      : `${name}=@${value.name} (${value.type || 'application/octet-stream'}, ${value.size} bytes)`)
+    .join('\n');
+}
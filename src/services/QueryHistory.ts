@@ -0,0 +1,115 @@
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+import type { DocumentRef } from '@/types/document';
+import type { QueryResult } from '@/types/query';
+
+/** 'replay' analyses ran from the offline queue rather than straight from the form */
+export type QueryHistorySource = 'live' | 'replay';
+
+export interface QueryHistoryEntry {
+  id: string;
+  questions: string[];
+  documents: DocumentRef[];
+  results: QueryResult[];
+  profileId: string;
+  source: QueryHistorySource;
+  completedAt: number;
+}
+
+const DB_NAME = 'intelliquery-query-history';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+const MAX_ENTRIES = 100;
+
+type Listener = () => void;
+
+/**
+ * Completed analyses, newest first, kept in IndexedDB across sessions. Like
+ * the answer cache this is best effort: without IndexedDB, history lasts
+ * until the page is reloaded.
+ */
+export class QueryHistory {
+  private static db: Promise<IDBDatabase> | null = null;
+  private static entries: QueryHistoryEntry[] = [];
+  private static loaded: Promise<void> | null = null;
+  private static listeners = new Set<Listener>();
+
+  static getEntries(): QueryHistoryEntry[] {
+    return this.entries;
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.load();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static async add(entry: Omit<QueryHistoryEntry, 'id' | 'completedAt'>): Promise<QueryHistoryEntry> {
+    await this.load();
+    const added: QueryHistoryEntry = { ...entry, id: crypto.randomUUID(), completedAt: Date.now() };
+    const dropped = this.entries.slice(MAX_ENTRIES - 1);
+    this.entries = [added, ...this.entries].slice(0, MAX_ENTRIES);
+    this.notify();
+
+    await this.write((store) => {
+      store.put(added);
+      dropped.forEach(old => store.delete(old.id));
+    });
+    return added;
+  }
+
+  static async remove(id: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.notify();
+    await this.write(store => store.delete(id));
+  }
+
+  static async clear(): Promise<void> {
+    this.entries = [];
+    this.notify();
+    await this.write(store => store.clear());
+  }
+
+  private static load(): Promise<void> {
+    if (this.loaded) return this.loaded;
+
+    this.loaded = (async () => {
+      try {
+        const store = (await this.open()).transaction(STORE, 'readonly').objectStore(STORE);
+        const stored: QueryHistoryEntry[] = await requestToPromise(store.getAll());
+        this.entries = stored.sort((a, b) => b.completedAt - a.completedAt);
+        this.notify();
+      } catch (error) {
+        console.warn('Query history is not available:', error);
+      }
+    })();
+    return this.loaded;
+  }
+
+  private static async write(change: (store: IDBObjectStore) => void): Promise<void> {
+    try {
+      const transaction = (await this.open()).transaction(STORE, 'readwrite');
+      change(transaction.objectStore(STORE));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Unable to save query history:', error);
+    }
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }).catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
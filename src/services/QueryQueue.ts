@@ -0,0 +1,262 @@
+import { ConfigService, type BackendProfile } from './ConfigService';
+import { AuthService } from './AuthService';
+import { DocumentService } from './DocumentService';
+import { HealthMonitor } from './HealthMonitor';
+import { QueryHistory, type QueryHistoryEntry } from './QueryHistory';
+import { BackendError } from './errors';
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+import type { Document } from '@/types/document';
+
+/** 'failed' items were rejected by the backend and wait for the user to retry or cancel them */
+export type QueuedQueryStatus = 'queued' | 'running' | 'failed';
+
+export interface QueuedQuery {
+  id: string;
+  questions: string[];
+  documents: Document[];
+  /** Replayed only while this profile is active */
+  profileId: string;
+  /** Lower replays first */
+  priority: number;
+  status: QueuedQueryStatus;
+  enqueuedAt: number;
+  /** Replays started so far */
+  attempts: number;
+  /** Why the last replay did not complete */
+  lastError?: string;
+}
+
+export interface ReplayOutcome {
+  item: QueuedQuery;
+  entry: QueryHistoryEntry;
+}
+
+const DB_NAME = 'intelliquery-query-queue';
+const DB_VERSION = 1;
+const STORE = 'queries';
+
+type Listener = () => void;
+type ReplayListener = (outcome: ReplayOutcome) => void;
+
+const byPriority = (a: QueuedQuery, b: QueuedQuery) => a.priority - b.priority;
+
+/**
+ * Analyses submitted while the backend was unreachable, persisted in
+ * IndexedDB so they survive reloads. Whenever a health check finds the
+ * backend up again, queued analyses for the active profile are replayed one
+ * at a time, in priority order, and their results are added to the history.
+ */
+export class QueryQueue {
+  private static db: Promise<IDBDatabase> | null = null;
+  private static items: QueuedQuery[] = [];
+  private static listeners = new Set<Listener>();
+  private static replayListeners = new Set<ReplayListener>();
+  private static replaying: Promise<void> | null = null;
+  private static running: { id: string; controller: AbortController } | null = null;
+  private static started = false;
+
+  static getItems(): QueuedQuery[] {
+    return this.items;
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Called with every analysis the queue completes, e.g. to notify the user. */
+  static onReplayed(listener: ReplayListener): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
+  }
+
+  /** Loads the persisted queue and starts replaying it whenever the backend is reachable. */
+  static async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    try {
+      const store = (await this.open()).transaction(STORE, 'readonly').objectStore(STORE);
+      const stored: QueuedQuery[] = await requestToPromise(store.getAll());
+      // An item still 'running' was interrupted by closing the page
+      this.items = stored
+        .map(item => item.status === 'running' ? { ...item, status: 'queued' as const } : item)
+        .sort(byPriority);
+      this.notify();
+    } catch (error) {
+      console.warn('Offline queue is not available; queued analyses will not survive a reload:', error);
+    }
+
+    HealthMonitor.subscribe(() => this.replayIfReady());
+    window.addEventListener('online', () => this.replayIfReady());
+  }
+
+  /** Whether the backend is known to be unreachable, so a new analysis should be queued rather than sent. */
+  static isBackendUnavailable(profile: BackendProfile): boolean {
+    // The offline adapter answers in the browser, so it is never unavailable
+    if (profile.adapter === 'offline') return false;
+    return !navigator.onLine || HealthMonitor.getSnapshot(profile).state === 'down';
+  }
+
+  static async enqueue(questions: string[], documents: Document[], profile: BackendProfile): Promise<QueuedQuery> {
+    const item: QueuedQuery = {
+      id: crypto.randomUUID(),
+      questions,
+      documents,
+      profileId: profile.id,
+      priority: Math.max(0, ...this.items.map(existing => existing.priority)) + 1,
+      status: 'queued',
+      enqueuedAt: Date.now(),
+      attempts: 0,
+    };
+    this.items = [...this.items, item];
+    this.notify();
+    await this.write(store => store.put(item));
+    return item;
+  }
+
+  /** Removes an item, stopping its replay if it is running. */
+  static async cancel(id: string): Promise<void> {
+    if (this.running?.id === id) {
+      this.running.controller.abort();
+    }
+    await this.remove(id);
+  }
+
+  /** Moves an item one place earlier (-1) or later (1) in the replay order. */
+  static async move(id: string, offset: -1 | 1): Promise<void> {
+    const index = this.items.findIndex(item => item.id === id);
+    const neighbour = this.items[index + offset];
+    if (index === -1 || !neighbour) return;
+
+    const item = this.items[index];
+    const swapped = [{ ...item, priority: neighbour.priority }, { ...neighbour, priority: item.priority }];
+    this.items = this.items.map(existing => swapped.find(changed => changed.id === existing.id) ?? existing).sort(byPriority);
+    this.notify();
+    await this.write(store => swapped.forEach(changed => store.put(changed)));
+  }
+
+  /** Queues a failed item again and replays it if the backend is reachable. */
+  static async retry(id: string): Promise<void> {
+    await this.update(id, { status: 'queued', lastError: undefined });
+    this.replayIfReady();
+  }
+
+  /** Replays queued items until the queue is empty or the backend becomes unreachable. */
+  static replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.drain().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private static replayIfReady(): void {
+    if (this.canReplay() && this.next()) {
+      this.replay();
+    }
+  }
+
+  private static canReplay(): boolean {
+    const profile = ConfigService.getActiveProfile();
+    const { state } = HealthMonitor.getSnapshot(profile);
+    const authState = AuthService.getAuthState(profile);
+
+    return !ConfigService.getConfig().demoMode
+      && navigator.onLine
+      && (state === 'healthy' || state === 'degraded')
+      && (authState === 'signed-in' || authState === 'not-required');
+  }
+
+  private static next(): QueuedQuery | undefined {
+    const { id } = ConfigService.getActiveProfile();
+    return this.items.find(item => item.status === 'queued' && item.profileId === id);
+  }
+
+  private static async drain(): Promise<void> {
+    for (let item = this.next(); item && this.canReplay(); item = this.next()) {
+      const reachable = await this.run(item);
+      // Wait for the next successful health check rather than hammering a backend that is down
+      if (!reachable) return;
+    }
+  }
+
+  /** Replays one item. Resolves to false when the backend turned out to be unreachable. */
+  private static async run(item: QueuedQuery): Promise<boolean> {
+    const controller = new AbortController();
+    this.running = { id: item.id, controller };
+    await this.update(item.id, { status: 'running', attempts: item.attempts + 1 });
+
+    try {
+      const results = await DocumentService.processQueries(item.questions, item.documents, { signal: controller.signal });
+      await this.remove(item.id);
+
+      const entry = await QueryHistory.add({
+        questions: item.questions,
+        documents: item.documents.map(({ id, name }) => ({ id, name })),
+        results,
+        profileId: item.profileId,
+        source: 'replay',
+      });
+      this.replayListeners.forEach(listener => listener({ item, entry }));
+      return true;
+    } catch (error) {
+      const backendError = BackendError.from(error);
+      // Cancelling removed the item already
+      if (backendError.kind === 'cancelled') return true;
+
+      const outage = backendError.outage;
+      await this.update(item.id, { status: outage ? 'queued' : 'failed', lastError: backendError.title });
+      return !outage;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private static async remove(id: string): Promise<void> {
+    this.items = this.items.filter(item => item.id !== id);
+    this.notify();
+    await this.write(store => store.delete(id));
+  }
+
+  private static async update(id: string, changes: Partial<QueuedQuery>): Promise<void> {
+    const current = this.items.find(item => item.id === id);
+    if (!current) return;
+
+    const updated = { ...current, ...changes };
+    this.items = this.items.map(item => item.id === id ? updated : item);
+    this.notify();
+    await this.write(store => store.put(updated));
+  }
+
+  private static async write(change: (store: IDBObjectStore) => void): Promise<void> {
+    try {
+      const transaction = (await this.open()).transaction(STORE, 'readwrite');
+      change(transaction.objectStore(STORE));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Unable to save the offline queue:', error);
+    }
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }).catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
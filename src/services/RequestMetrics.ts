@@ -0,0 +1,122 @@
+import type { BackendKind } from './backends/types';
+import type { BackendErrorKind } from './errors';
+
+export interface AttemptRecord {
+  /** 1-based attempt number within its request */
+  attempt: number;
+  startedAt: number;
+  durationMs: number;
+  outcome: 'success' | 'failure';
+  errorKind?: BackendErrorKind;
+  status?: number;
+  /** Delay before the next attempt, when one was scheduled */
+  retryDelayMs?: number;
+}
+
+export type RequestOutcome = 'success' | 'failure' | 'cancelled';
+
+export interface RequestRecord {
+  id: string;
+  profileId: string;
+  adapter: BackendKind;
+  startedAt: number;
+  finishedAt?: number;
+  outcome?: RequestOutcome;
+  attempts: AttemptRecord[];
+}
+
+export interface RequestMetricsSnapshot {
+  /** Most recent first, capped to the last MAX_RECORDS requests */
+  requests: RequestRecord[];
+  totalRequests: number;
+  totalAttempts: number;
+  totalRetries: number;
+  failedRequests: number;
+}
+
+const MAX_RECORDS = 50;
+
+type Listener = (snapshot: RequestMetricsSnapshot) => void;
+
+/**
+ * In-memory log of backend requests and their individual attempts for the
+ * current session, used by the dashboard to show retry activity.
+ */
+export class RequestMetrics {
+  private static snapshot: RequestMetricsSnapshot = {
+    requests: [],
+    totalRequests: 0,
+    totalAttempts: 0,
+    totalRetries: 0,
+    failedRequests: 0,
+  };
+  private static listeners = new Set<Listener>();
+  private static nextId = 1;
+
+  static getSnapshot(): RequestMetricsSnapshot {
+    return this.snapshot;
+  }
+
+  static subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static begin(profileId: string, adapter: BackendKind): string {
+    const record: RequestRecord = {
+      id: `req-${this.nextId++}`,
+      profileId,
+      adapter,
+      startedAt: Date.now(),
+      attempts: [],
+    };
+
+    this.publish({
+      ...this.snapshot,
+      requests: [record, ...this.snapshot.requests].slice(0, MAX_RECORDS),
+      totalRequests: this.snapshot.totalRequests + 1,
+    });
+    return record.id;
+  }
+
+  static recordAttempt(requestId: string, attempt: AttemptRecord): void {
+    this.publish({
+      ...this.snapshot,
+      requests: this.updateRecord(requestId, record => ({ ...record, attempts: [...record.attempts, attempt] })),
+      totalAttempts: this.snapshot.totalAttempts + 1,
+      totalRetries: this.snapshot.totalRetries + (attempt.attempt > 1 ? 1 : 0),
+    });
+  }
+
+  /** Notes the backoff chosen after the latest failed attempt. */
+  static recordRetryDelay(requestId: string, retryDelayMs: number): void {
+    this.publish({
+      ...this.snapshot,
+      requests: this.updateRecord(requestId, record => ({
+        ...record,
+        attempts: record.attempts.map((attempt, index) =>
+          index === record.attempts.length - 1 ? { ...attempt, retryDelayMs } : attempt
+        ),
+      })),
+    });
+  }
+
+  static finish(requestId: string, outcome: RequestOutcome): void {
+    this.publish({
+      ...this.snapshot,
+      requests: this.updateRecord(requestId, record => ({ ...record, outcome, finishedAt: Date.now() })),
+      failedRequests: this.snapshot.failedRequests + (outcome === 'failure' ? 1 : 0),
+    });
+  }
+
+  private static updateRecord(requestId: string, update: (record: RequestRecord) => RequestRecord): RequestRecord[] {
+    return this.snapshot.requests.map(record => record.id === requestId ? update(record) : record);
+  }
+
+  private static publish(snapshot: RequestMetricsSnapshot): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
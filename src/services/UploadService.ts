@@ -0,0 +1,134 @@
+import { AuthService } from './AuthService';
+import { ConfigService, type BackendProfile } from './ConfigService';
+import { apiUrl, buildHeaders, readValidated } from './http';
+import { NetworkLog } from './NetworkLog';
+import { ContractError } from './errors';
+import { documentStatusResponseSchema, parseResponse, uploadResponseSchema } from './schemas';
+import type { DocumentStatus } from '@/types/document';
+
+export interface UploadedDocument {
+  id: string;
+  url: string;
+  status: DocumentStatus;
+}
+
+export interface DocumentStatusUpdate {
+  id: string;
+  url?: string;
+  status: DocumentStatus;
+  /** Server-side processing progress, 0-100, when the backend reports it */
+  progress?: number;
+  error?: string;
+}
+
+export interface UploadOptions {
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export class UploadService {
+  /**
+   * Streams the file to the backend as multipart/form-data. XMLHttpRequest is
+   * used instead of fetch because fetch does not expose upload progress.
+   */
+  static uploadDocument(file: File, { onProgress, signal }: UploadOptions = {}): Promise<UploadedDocument> {
+    const profile = ConfigService.getActiveProfile();
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const formData = new FormData();
+      formData.append('file', file, file.name);
+
+      const url = apiUrl(profile, '/documents');
+      const headers = buildHeaders(profile);
+      xhr.open('POST', url);
+      xhr.timeout = profile.timeoutMs;
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+      const logId = NetworkLog.start({ method: 'POST', url, headers, body: formData });
+      const fail = (error: Error) => {
+        NetworkLog.fail(logId, error);
+        reject(error);
+      };
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress?.(event.loaded, event.total);
+        }
+      };
+
+      xhr.onload = () => {
+        NetworkLog.receive(logId, { status: xhr.status, statusText: xhr.statusText, headers: parseResponseHeaders(xhr) });
+        NetworkLog.complete(logId, xhr.responseText);
+
+        if (xhr.status < 200 || xhr.status >= 300) {
+          this.checkAuthorized(profile, xhr.status);
+          reject(new UploadError(`Upload failed: ${xhr.status} ${xhr.statusText}`, xhr.status));
+          return;
+        }
+
+        try {
+          const uploaded = parseResponse(uploadResponseSchema, xhr.responseText, '/documents') as UploadedDocument;
+          NetworkLog.recordValidation(logId, []);
+          resolve(uploaded);
+        } catch (error) {
+          if (error instanceof ContractError) {
+            NetworkLog.recordValidation(logId, error.issues);
+          }
+          reject(error);
+        }
+      };
+
+      xhr.onerror = () => fail(new UploadError('Upload failed: backend not reachable'));
+      xhr.ontimeout = () => fail(new UploadError('Upload timed out'));
+      xhr.onabort = () => fail(new DOMException('Upload cancelled', 'AbortError'));
+
+      if (signal) {
+        if (signal.aborted) {
+          fail(new DOMException('Upload cancelled', 'AbortError'));
+          return;
+        }
+        signal.addEventListener('abort', () => xhr.abort(), { once: true });
+      }
+
+      xhr.send(formData);
+    });
+  }
+
+  static async getDocumentStatus(documentId: string, signal?: AbortSignal): Promise<DocumentStatusUpdate> {
+    const profile = ConfigService.getActiveProfile();
+    const response = await NetworkLog.fetch(apiUrl(profile, `/documents/${encodeURIComponent(documentId)}`), {
+      headers: buildHeaders(profile),
+      signal,
+    });
+
+    if (!response.ok) {
+      this.checkAuthorized(profile, response.status);
+      throw new UploadError(`Status check failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const data = await readValidated(response, async () =>
+      parseResponse(documentStatusResponseSchema, await response.text(), '/documents/{id}'));
+    return { id: documentId, ...data } as DocumentStatusUpdate;
+  }
+
+  private static checkAuthorized(profile: BackendProfile, status: number): void {
+    if (status === 401 || status === 403) {
+      AuthService.handleUnauthorized(profile);
+    }
+  }
+}
+
+function parseResponseHeaders(xhr: XMLHttpRequest): Record<string, string> {
+  return Object.fromEntries(xhr.getAllResponseHeaders().trim().split(/[\r\n]+/).filter(Boolean).map((line) => {
+    const separator = line.indexOf(':');
+    return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+  }));
+}
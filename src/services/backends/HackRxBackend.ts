@@ -0,0 +1,166 @@
+import type { BackendProfile } from '../ConfigService';
+import { BackendError, ContractError, overConnection, streamOverConnection } from '../errors';
+import { apiUrl, buildHeaders, createTimeoutController, readValidated, timedGet } from '../http';
+import { NetworkLog } from '../NetworkLog';
+import {
+  assertAnswerCount,
+  hackRxRequestSchema,
+  hackRxResponseSchema,
+  hackRxStreamEventSchema,
+  healthResponseSchema,
+  jsonObjectSchema,
+  parseResponse,
+  validateRequest,
+} from '../schemas';
+import { STREAM_ACCEPT_HEADER, detectStreamFormat, readEventStream, type StreamFormat } from '@/lib/stream';
+import type { BackendAnswer, BackendQueryOptions, BackendQueryRequest, HealthCheck, QueryBackend } from './types';
+
+const ENDPOINT = '/hackrx/run';
+const HEALTH_ENDPOINT = '/health';
+const HEALTHY_STATUSES = ['ok', 'healthy', 'up', 'pass', 'ready'];
+
+export class HackRxBackend implements QueryBackend {
+  readonly kind = 'hackrx';
+  readonly label = 'HackRx API';
+  readonly description = 'POST /hackrx/run with document URL and questions';
+  readonly provenance = 'backend';
+  readonly uploadsDocuments = true;
+
+  async processQueries(
+    profile: BackendProfile,
+    request: BackendQueryRequest,
+    options: BackendQueryOptions = {}
+  ): Promise<BackendAnswer[]> {
+    // While streaming, the timeout measures silence between events rather than total duration
+    const timeout = createTimeoutController(profile.timeoutMs, options.signal);
+
+    try {
+      const body = validateRequest(hackRxRequestSchema, request, ENDPOINT);
+      const response = await overConnection(NetworkLog.fetch(apiUrl(profile, ENDPOINT), {
+        method: 'POST',
+        headers: buildHeaders(profile, {
+          'Content-Type': 'application/json',
+          'Accept': profile.streaming ? STREAM_ACCEPT_HEADER : 'application/json',
+        }),
+        body: JSON.stringify(body),
+        signal: timeout.signal
+      }));
+
+      if (!response.ok) {
+        throw BackendError.fromResponse(response);
+      }
+
+      return await readValidated(response, async () => {
+        const streamFormat = profile.streaming ? detectStreamFormat(response.headers.get('Content-Type')) : null;
+        if (streamFormat && response.body) {
+          return await this.readStreamedAnswers(response.body, streamFormat, request.questions.length, options, timeout.reset);
+        }
+
+        const raw = await overConnection(response.text());
+        const data = parseResponse(hackRxResponseSchema, raw, ENDPOINT);
+        assertAnswerCount(data.answers.length, request.questions.length, ENDPOINT, raw);
+        if (data.citations) {
+          assertAnswerCount(data.citations.length, request.questions.length, ENDPOINT, raw, 'citations');
+        }
+        if (data.reasoning) {
+          assertAnswerCount(data.reasoning.length, request.questions.length, ENDPOINT, raw, 'reasoning');
+        }
+
+        return data.answers.map((answer, index) => ({
+          answer,
+          citations: data.citations?.[index] ?? [],
+          reasoning: data.reasoning?.[index],
+        }));
+      });
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  async checkHealth(profile: BackendProfile, signal?: AbortSignal): Promise<HealthCheck> {
+    const { response, latencyMs } = await timedGet(profile, HEALTH_ENDPOINT, signal);
+
+    // A plain-text 200 ("OK") counts as healthy; only a JSON body can report degradation
+    let body: unknown = null;
+    try {
+      body = JSON.parse(await response.text());
+    } catch {
+      return { status: 'healthy', latencyMs };
+    }
+
+    const parsed = healthResponseSchema.safeParse(body);
+    const reported = parsed.success ? parsed.data.status?.toLowerCase() : undefined;
+    if (!reported || HEALTHY_STATUSES.includes(reported)) {
+      return { status: 'healthy', latencyMs };
+    }
+
+    return {
+      status: 'degraded',
+      latencyMs,
+      detail: parsed.data.detail || parsed.data.message || `Backend reports status "${parsed.data.status}"`,
+    };
+  }
+
+  private async readStreamedAnswers(
+    body: ReadableStream<Uint8Array>,
+    format: StreamFormat,
+    questionCount: number,
+    { onAnswer }: BackendQueryOptions,
+    onActivity: () => void
+  ): Promise<BackendAnswer[]> {
+    const answers: BackendAnswer[] = Array.from({ length: questionCount }, () => ({ answer: '', citations: [] }));
+    // Token events only extend a draft; a question is answered once its final `answer` event arrives
+    const finished = new Set<number>();
+    const transcript: string[] = [];
+    let done = false;
+
+    for await (const message of streamOverConnection(readEventStream(body, format))) {
+      onActivity();
+      if (message.done) {
+        done = true;
+        break;
+      }
+      transcript.push(message.data);
+
+      // SSE servers may name the event instead of putting `type` in the payload
+      const fields = parseResponse(jsonObjectSchema, message.data, ENDPOINT);
+      const event = parseResponse(hackRxStreamEventSchema, { type: message.event, ...fields }, ENDPOINT);
+
+      if (event.type === 'done') {
+        done = true;
+        break;
+      }
+      if (event.type === 'error') {
+        throw new BackendError('stream', `API stream failed: ${event.message || 'unknown error'}`);
+      }
+      if (event.index >= questionCount) {
+        throw new ContractError(`Response from ${ENDPOINT} referenced an unknown question`, {
+          endpoint: ENDPOINT,
+          direction: 'response',
+          issues: [`index: ${event.index} is out of range for ${questionCount} questions`],
+          payload: transcript.join('\n'),
+        });
+      }
+
+      if (event.type === 'token') {
+        const current = answers[event.index];
+        answers[event.index] = { ...current, answer: current.answer + event.delta };
+        onAnswer?.(event.index, answers[event.index], true);
+      } else {
+        finished.add(event.index);
+        answers[event.index] = { answer: event.answer, citations: event.citations ?? [], reasoning: event.reasoning };
+        onAnswer?.(event.index, answers[event.index], false);
+      }
+    }
+
+    // A stream ends with a `done` event or an SSE [DONE] sentinel; one cut off part way must not hand back
+    // half-written answers, which would then be cached
+    if (!done) {
+      throw new BackendError('stream', 'API stream ended before it was done');
+    }
+    if (finished.size < questionCount) {
+      throw new BackendError('stream', `API stream ended with ${questionCount - finished.size} of ${questionCount} answers unfinished`);
+    }
+    return answers;
+  }
+}
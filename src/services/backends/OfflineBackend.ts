@@ -0,0 +1,55 @@
+import type { BackendProfile } from '../ConfigService';
+import { BackendError } from '../errors';
+import { LocalIndex } from '../LocalIndex';
+import type { BackendAnswer, BackendQueryOptions, BackendQueryRequest, HealthCheck, QueryBackend } from './types';
+
+const REASONING = 'Quoted from the passages of the document that best match the question, found by the in-browser '
+  + 'BM25 search index. No language model was involved, so the answer is only as good as the match.';
+
+/**
+ * Answers entirely in the browser without any network access, by quoting the
+ * passages of the document that best match each question. The document must
+ * have been parsed and indexed in this session.
+ */
+export class OfflineBackend implements QueryBackend {
+  readonly kind = 'offline';
+  readonly label = 'Offline (in-browser)';
+  readonly description = 'Answers extractively from your documents in the browser';
+  readonly provenance = 'local';
+  readonly uploadsDocuments = false;
+
+  async processQueries(
+    _profile: BackendProfile,
+    request: BackendQueryRequest,
+    { onAnswer, signal }: BackendQueryOptions = {}
+  ): Promise<BackendAnswer[]> {
+    if (!LocalIndex.has(request.documentId)) {
+      throw new BackendError('not-indexed', 'The document has not been read in this browser session');
+    }
+
+    const answers: BackendAnswer[] = [];
+    for (const [index, question] of request.questions.entries()) {
+      signal?.throwIfAborted();
+      const { answer, passages } = await LocalIndex.answer(request.documentId, question);
+      answers.push({
+        answer,
+        citations: passages.map(passage => ({
+          documentId: request.documentId,
+          page: passage.page,
+          clause: passage.clause,
+          section: passage.section,
+          sectionId: passage.sectionId,
+          snippet: passage.text,
+          score: passage.score,
+        })),
+        reasoning: answer ? REASONING : undefined,
+      });
+      onAnswer?.(index, answers[index], false);
+    }
+    return answers;
+  }
+
+  async checkHealth(): Promise<HealthCheck> {
+    return { status: 'healthy', latencyMs: 0 };
+  }
+}
@@ -0,0 +1,150 @@
+import type { BackendProfile } from '../ConfigService';
+import { BackendError, overConnection, streamOverConnection } from '../errors';
+import { apiUrl, buildHeaders, createTimeoutController, readValidated, timedGet } from '../http';
+import { LocalIndex, type Passage } from '../LocalIndex';
+import { NetworkLog } from '../NetworkLog';
+import {
+  chatCompletionChunkSchema,
+  chatCompletionRequestSchema,
+  chatCompletionResponseSchema,
+  parseResponse,
+  validateRequest,
+} from '../schemas';
+import { detectStreamFormat, readEventStream } from '@/lib/stream';
+import type { BackendAnswer, BackendQueryOptions, BackendQueryRequest, HealthCheck, QueryBackend } from './types';
+
+const ENDPOINT = '/chat/completions';
+
+const SYSTEM_PROMPT =
+  'You are an analyst answering questions about insurance, legal and compliance documents. ' +
+  'Answer concisely using only the excerpts given. If they do not contain the answer, say so.';
+
+// Passages of the document sent with each question, best matches first
+const CONTEXT_PASSAGES = 6;
+
+const toExcerpt = (passage: Passage, index: number) =>
+  `[${index + 1}] ${[passage.section, passage.page && `page ${passage.page}`].filter(Boolean).join(', ')}\n${passage.text}`;
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API, such as a
+ * local llama.cpp, vLLM or Ollama instance. Model servers cannot read
+ * documents, so nothing is uploaded: each question is sent with the passages
+ * of the browser's copy of the document that best match it, and those
+ * passages are the answer's citations. Each question is a separate
+ * completion so answers can stream independently.
+ */
+export class OpenAICompatibleBackend implements QueryBackend {
+  readonly kind = 'openai';
+  readonly label = 'OpenAI-compatible';
+  readonly description = 'POST /chat/completions on a local or hosted model server';
+  readonly provenance = 'backend';
+  readonly uploadsDocuments = false;
+
+  async processQueries(
+    profile: BackendProfile,
+    request: BackendQueryRequest,
+    options: BackendQueryOptions = {}
+  ): Promise<BackendAnswer[]> {
+    if (!LocalIndex.has(request.documentId)) {
+      throw new BackendError('not-indexed', 'The document has not been read in this browser session');
+    }
+
+    const answers: BackendAnswer[] = [];
+    for (let index = 0; index < request.questions.length; index++) {
+      options.signal?.throwIfAborted();
+      const passages = await LocalIndex.search(request.documentId, request.questions[index], CONTEXT_PASSAGES);
+      answers.push(await this.complete(profile, request.documentId, passages, request.questions[index], index, options));
+    }
+
+    return answers;
+  }
+
+  /** Model servers have no common health endpoint, but all of them list their models. */
+  async checkHealth(profile: BackendProfile, signal?: AbortSignal): Promise<HealthCheck> {
+    const { latencyMs } = await timedGet(profile, '/models', signal);
+    return { status: 'healthy', latencyMs };
+  }
+
+  private async complete(
+    profile: BackendProfile,
+    documentId: string,
+    passages: Passage[],
+    question: string,
+    index: number,
+    { onAnswer, signal }: BackendQueryOptions
+  ): Promise<BackendAnswer> {
+    const timeout = createTimeoutController(profile.timeoutMs, signal);
+    const citations = passages.map(passage => ({
+      documentId,
+      page: passage.page,
+      clause: passage.clause,
+      section: passage.section,
+      sectionId: passage.sectionId,
+      snippet: passage.text,
+      score: passage.score,
+    }));
+    const excerpts = passages.length > 0 ? passages.map(toExcerpt).join('\n\n') : '(no matching passages)';
+
+    try {
+      const body = validateRequest(chatCompletionRequestSchema, {
+        model: profile.model,
+        stream: profile.streaming,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: `Document excerpts:\n\n${excerpts}\n\nQuestion: ${question}` },
+        ],
+      }, ENDPOINT);
+
+      const response = await overConnection(NetworkLog.fetch(apiUrl(profile, ENDPOINT), {
+        method: 'POST',
+        headers: buildHeaders(profile, {
+          'Content-Type': 'application/json',
+          'Accept': profile.streaming ? 'text/event-stream' : 'application/json',
+        }),
+        body: JSON.stringify(body),
+        signal: timeout.signal,
+      }));
+
+      if (!response.ok) {
+        throw BackendError.fromResponse(response);
+      }
+
+      return await readValidated(response, async () => {
+        const streamFormat = profile.streaming ? detectStreamFormat(response.headers.get('Content-Type')) : null;
+        if (!streamFormat || !response.body) {
+          const data = parseResponse(chatCompletionResponseSchema, await overConnection(response.text()), ENDPOINT);
+          const answer: BackendAnswer = { answer: data.choices[0].message.content?.trim() || '', citations };
+          onAnswer?.(index, answer, false);
+          return answer;
+        }
+
+        let text = '';
+        let finished = false;
+        for await (const message of streamOverConnection(readEventStream(response.body, streamFormat))) {
+          timeout.reset();
+          if (message.done) {
+            finished = true;
+            break;
+          }
+          const chunk = parseResponse(chatCompletionChunkSchema, message.data, ENDPOINT);
+          text += chunk.choices[0]?.delta?.content || '';
+          finished = finished || !!chunk.choices[0]?.finish_reason;
+          onAnswer?.(index, { answer: text, citations }, true);
+        }
+
+        // A completion ends with a finish_reason or an SSE [DONE] sentinel; one cut off part way must not
+        // be handed back as a complete answer, which would then be cached
+        if (!finished) {
+          throw new BackendError('stream', 'Completion stream ended before the answer was finished');
+        }
+
+        const answer: BackendAnswer = { answer: text.trim(), citations };
+        onAnswer?.(index, answer, false);
+        return answer;
+      });
+    } finally {
+      timeout.clear();
+    }
+  }
+}
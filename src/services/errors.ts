@@ -0,0 +1,199 @@
+export type BackendErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'rate-limit'
+  | 'server'
+  | 'http'
+  | 'stream'
+  | 'contract'
+  | 'not-indexed'
+  | 'cancelled';
+
+const errorTitles: Record<BackendErrorKind, string> = {
+  network: 'Backend not reachable',
+  timeout: 'Request timed out',
+  auth: 'Not authorized',
+  'rate-limit': 'Too many requests',
+  server: 'Backend error',
+  http: 'Request rejected',
+  stream: 'Answer stream interrupted',
+  contract: 'Unexpected response from backend',
+  'not-indexed': 'Document not read in this browser',
+  cancelled: 'Analysis cancelled',
+};
+
+const errorHints: Record<BackendErrorKind, string> = {
+  network: 'Check that the backend is running and that the API base URL in Settings is correct.',
+  timeout: 'The backend took too long to answer. Try fewer questions or raise the timeout in Settings.',
+  auth: 'The backend rejected the credentials. Sign in again, or check the authentication method in Settings.',
+  'rate-limit': 'The backend is throttling requests. Wait a moment and try again.',
+  server: 'The backend failed while processing the request. Try again later.',
+  http: 'The backend rejected the request.',
+  stream: 'The connection dropped while answers were streaming. Try again.',
+  contract: 'The backend returned data in an unexpected format. Inspect the raw payload for details.',
+  'not-indexed': 'This backend answers from the copy of the document read in the browser, which is kept for the session only. Upload the document again.',
+  cancelled: 'You cancelled the analysis. Answers that had already completed were kept.',
+};
+
+// Statuses where the request never took effect, or the server asked us to come back later
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+// Gateways answering these are fronting a backend that is down
+const OUTAGE_STATUSES = new Set([502, 503, 504]);
+
+export interface BackendErrorOptions {
+  status?: number;
+  cause?: unknown;
+  /** Delay requested by the server's Retry-After header */
+  retryAfterMs?: number;
+}
+
+/**
+ * A failed call to the query backend, classified so the UI can explain what
+ * went wrong instead of showing a generic failure.
+ */
+export class BackendError extends Error {
+  readonly status?: number;
+  readonly cause?: unknown;
+  readonly retryAfterMs?: number;
+
+  constructor(public readonly kind: BackendErrorKind, message: string, options: BackendErrorOptions = {}) {
+    super(message);
+    this.name = 'BackendError';
+    this.status = options.status;
+    this.cause = options.cause;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get title(): string {
+    return errorTitles[this.kind];
+  }
+
+  get hint(): string {
+    return errorHints[this.kind];
+  }
+
+  /**
+   * Whether repeating the same request is safe and might succeed: the server was
+   * unreachable, timed out, or explicitly asked to be retried later.
+   */
+  get retryable(): boolean {
+    if (this.kind === 'network' || this.kind === 'timeout') return true;
+    return this.status !== undefined && RETRYABLE_STATUSES.has(this.status);
+  }
+
+  /** Whether the backend could not be reached, as opposed to it rejecting the request. */
+  get outage(): boolean {
+    if (this.kind === 'network' || this.kind === 'timeout') return true;
+    return this.status !== undefined && OUTAGE_STATUSES.has(this.status);
+  }
+
+  static cancelled(cause?: unknown): BackendError {
+    return new BackendError('cancelled', 'The analysis was cancelled', { cause });
+  }
+
+  static fromResponse(response: Response): BackendError {
+    const message = `API request failed: ${response.status} ${response.statusText}`;
+    const options = { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) };
+
+    if (response.status === 401 || response.status === 403) {
+      return new BackendError('auth', message, options);
+    }
+    if (response.status === 429) {
+      return new BackendError('rate-limit', message, options);
+    }
+    if (response.status >= 500) {
+      return new BackendError('server', message, options);
+    }
+    return new BackendError('http', message, options);
+  }
+
+  /**
+   * Normalizes anything thrown by an adapter into a BackendError. A failed
+   * connection is already reported as `network` by `overConnection`.
+   */
+  static from(error: unknown): BackendError {
+    if (error instanceof BackendError) return error;
+
+    const err = error as Error;
+    if (err?.name === 'AbortError') {
+      return new BackendError('timeout', 'The backend did not respond in time', { cause: error });
+    }
+    return new BackendError('http', err?.message || String(error), { cause: error });
+  }
+}
+
+export interface ContractErrorOptions {
+  endpoint: string;
+  direction: 'request' | 'response';
+  /** Human-readable validation problems, one per field */
+  issues: string[];
+  /** The raw body as received (or sent), for the debug view */
+  payload: unknown;
+}
+
+/**
+ * A request or response that does not match the agreed API contract, e.g. a
+ * missing field, a wrong type or fewer answers than questions.
+ */
+export class ContractError extends BackendError {
+  readonly endpoint: string;
+  readonly direction: 'request' | 'response';
+  readonly issues: string[];
+  readonly payload: unknown;
+
+  constructor(message: string, { endpoint, direction, issues, payload }: ContractErrorOptions) {
+    super('contract', message);
+    this.name = 'ContractError';
+    this.endpoint = endpoint;
+    this.direction = direction;
+    this.issues = issues;
+    this.payload = payload;
+  }
+}
+
+const toConnectionError = (error: unknown) => (error instanceof TypeError
+  ? new BackendError('network', error.message || 'Failed to fetch', { cause: error })
+  : error);
+
+/**
+ * Awaits a fetch, or a read of a response body, reporting the TypeError
+ * browsers throw when the connection fails (DNS, CORS, connection refused or
+ * dropped part way) as a `network` error. Other TypeErrors are bugs rather
+ * than outages, so they are left to `BackendError.from`.
+ */
+export async function overConnection<T>(request: Promise<T>): Promise<T> {
+  try {
+    return await request;
+  } catch (error) {
+    throw toConnectionError(error);
+  }
+}
+
+/** Yields the messages of a streamed response body, as `overConnection` awaits a single read. */
+export async function* streamOverConnection<T>(messages: AsyncIterable<T>): AsyncGenerator<T> {
+  const iterator = messages[Symbol.asyncIterator]();
+  try {
+    while (true) {
+      const next = await overConnection(iterator.next());
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    // Lets the stream release its reader when the caller stops reading early
+    await iterator.return?.();
+  }
+}
+
+/** Parses a Retry-After header given either as delta-seconds or as an HTTP date. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
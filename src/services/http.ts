@@ -0,0 +1,103 @@
+import type { BackendProfile } from './ConfigService';
+import { AuthService } from './AuthService';
+import { BackendError, ContractError, overConnection } from './errors';
+import { NetworkLog } from './NetworkLog';
+
+export function buildHeaders(profile: BackendProfile, headers: Record<string, string> = {}): Record<string, string> {
+  const result: Record<string, string> = {
+    'Accept': 'application/json',
+    ...headers,
+  };
+
+  const token = AuthService.getAccessToken(profile);
+  if (token) {
+    result['Authorization'] = `Bearer ${token}`;
+  }
+
+  return result;
+}
+
+export function apiUrl(profile: BackendProfile, path: string): string {
+  return `${profile.apiBaseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+export interface TimeoutController {
+  signal: AbortSignal;
+  /** Restarts the countdown, e.g. whenever a streamed chunk arrives */
+  reset: () => void;
+  clear: () => void;
+}
+
+/**
+ * Aborts after `timeoutMs`, or as soon as the optional parent signal aborts
+ * (e.g. the user pressed Cancel).
+ */
+export function createTimeoutController(timeoutMs: number, parent?: AbortSignal): TimeoutController {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timeoutId = setTimeout(abort, timeoutMs);
+
+  if (parent?.aborted) {
+    abort();
+  } else {
+    parent?.addEventListener('abort', abort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    reset: () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(abort, timeoutMs);
+    },
+    clear: () => {
+      clearTimeout(timeoutId);
+      parent?.removeEventListener('abort', abort);
+    },
+  };
+}
+
+export interface TimedResponse {
+  response: Response;
+  latencyMs: number;
+}
+
+/**
+ * A GET used for health probes: bounded by the profile timeout and failing
+ * with a BackendError on network errors and non-2xx statuses.
+ */
+export async function timedGet(profile: BackendProfile, path: string, signal?: AbortSignal): Promise<TimedResponse> {
+  const timeout = createTimeoutController(profile.timeoutMs, signal);
+  const startedAt = performance.now();
+
+  try {
+    const response = await overConnection(NetworkLog.fetch(apiUrl(profile, path), {
+      headers: buildHeaders(profile),
+      signal: timeout.signal,
+    }));
+    if (!response.ok) {
+      throw BackendError.fromResponse(response);
+    }
+    return { response, latencyMs: Math.round(performance.now() - startedAt) };
+  } catch (error) {
+    throw signal?.aborted ? BackendError.cancelled(error) : BackendError.from(error);
+  } finally {
+    timeout.clear();
+  }
+}
+
+/**
+ * Reads a response fetched through NetworkLog.fetch, noting in the network log
+ * whether its body matched the API contract.
+ */
+export async function readValidated<T>(response: Response, read: () => T | Promise<T>): Promise<T> {
+  try {
+    const result = await read();
+    NetworkLog.recordValidation(response, []);
+    return result;
+  } catch (error) {
+    if (error instanceof ContractError) {
+      NetworkLog.recordValidation(response, error.issues);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { ContractError } from './errors';
+import type { Citation } from '@/types/query';
+
+/** Any JSON object; used to parse stream events before their shape is known */
+export const jsonObjectSchema = z.record(z.string(), z.unknown());
+
+// Annotated so the inferred type matches Citation even without strictNullChecks
+export const citationSchema = z.object({
+  documentId: z.string().min(1),
+  page: z.number().int().min(1).optional(),
+  clause: z.string().optional(),
+  section: z.string().optional(),
+  snippet: z.string(),
+  score: z.number().min(0).max(1),
+}) as z.ZodType<Citation>;
+
+// --- /hackrx/run -----------------------------------------------------------
+
+export const hackRxRequestSchema = z.object({
+  documents: z.string().min(1),
+  questions: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * `citations` and `reasoning` are optional extensions; when present they are
+ * parallel to `answers`, one entry per question.
+ */
+export const hackRxResponseSchema = z.object({
+  answers: z.array(z.string()),
+  citations: z.array(z.array(citationSchema)).optional(),
+  reasoning: z.array(z.string()).optional(),
+});
+
+export const hackRxStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('token'), index: z.number().int().min(0), delta: z.string() }),
+  z.object({
+    type: z.literal('answer'),
+    index: z.number().int().min(0),
+    answer: z.string(),
+    citations: z.array(citationSchema).optional(),
+    reasoning: z.string().optional(),
+  }),
+  z.object({ type: z.literal('done') }),
+  z.object({ type: z.literal('error'), message: z.string().optional() }),
+]);
+
+export type HackRxStreamEvent = z.infer<typeof hackRxStreamEventSchema>;
+
+// --- /chat/completions (OpenAI-compatible) ---------------------------------
+
+export const chatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  stream: z.boolean(),
+  temperature: z.number(),
+  messages: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant']),
+    content: z.string(),
+  })).min(1),
+});
+
+export const chatCompletionResponseSchema = z.object({
+  choices: z.array(z.object({
+    message: z.object({ content: z.string().nullable() }),
+  })).min(1),
+});
+
+export const chatCompletionChunkSchema = z.object({
+  choices: z.array(z.object({
+    delta: z.object({ content: z.string().nullable().optional() }).optional(),
+    /** Set on the last chunk of a choice, e.g. "stop" or "length" */
+    finish_reason: z.string().nullable().optional(),
+  })),
+});
+
+// --- /documents -------------------------------------------------------------
+
+const documentStatusSchema = z.enum(['uploading', 'processing', 'ready', 'error']);
+
+export const uploadResponseSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]).transform(String),
+  url: z.string().min(1),
+  status: documentStatusSchema.default('processing'),
+});
+
+export const documentStatusResponseSchema = z.object({
+  url: z.string().optional(),
+  status: documentStatusSchema,
+  progress: z.number().min(0).max(100).optional(),
+  error: z.string().optional(),
+});
+
+// --- /health ----------------------------------------------------------------
+
+/** Health bodies vary between servers; only a self-reported status is read. */
+export const healthResponseSchema = z.object({
+  status: z.string().optional(),
+  detail: z.string().optional(),
+  message: z.string().optional(),
+}).passthrough();
+
+// --- /auth ------------------------------------------------------------------
+
+export const loginRequestSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const refreshRequestSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+/** OAuth-style token response returned by both /auth/login and /auth/refresh */
+export const tokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  token_type: z.string().optional(),
+  /** Seconds until `access_token` expires; absent for tokens that do not expire */
+  expires_in: z.number().positive().optional(),
+  refresh_token: z.string().min(1).optional(),
+});
+
+// --- helpers ----------------------------------------------------------------
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Validates an outgoing request body. A failure here is a bug on our side, but
+ * it is reported the same way so it never reaches the server malformed.
+ */
+export function validateRequest<T extends z.ZodTypeAny>(schema: T, body: unknown, endpoint: string): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ContractError(`Invalid request for ${endpoint}`, {
+      endpoint,
+      direction: 'request',
+      issues: formatIssues(result.error),
+      payload: body,
+    });
+  }
+  return result.data;
+}
+
+/** Parses a JSON payload and validates it, keeping the raw payload for debugging on failure. */
+export function parseResponse<T extends z.ZodTypeAny>(schema: T, raw: string | unknown, endpoint: string): z.infer<T> {
+  let payload: unknown = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      payload = JSON.parse(raw);
+    } catch (error) {
+      throw new ContractError(`Response from ${endpoint} is not valid JSON`, {
+        endpoint,
+        direction: 'response',
+        issues: [`(root): ${error.message}`],
+        payload: raw,
+      });
+    }
+  }
+
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new ContractError(`Response from ${endpoint} does not match the expected format`, {
+      endpoint,
+      direction: 'response',
+      issues: formatIssues(result.error),
+      payload: raw,
+    });
+  }
+  return result.data;
+}
+
+export function assertAnswerCount(
+  answerCount: number,
+  questionCount: number,
+  endpoint: string,
+  payload: unknown,
+  field = 'answers'
+): void {
+  if (answerCount !== questionCount) {
+    throw new ContractError(`Response from ${endpoint} has the wrong number of ${field}`, {
+      endpoint,
+      direction: 'response',
+      issues: [`${field}: expected ${questionCount} entries, received ${answerCount}`],
+      payload,
+    });
+  }
+}
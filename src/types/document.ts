@@ -0,0 +1,22 @@
+export type DocumentStatus = 'uploading' | 'processing' | 'ready' | 'error';
+
+export interface Document {
+  id: string;
+  name: string;
+  type: string;
+  /** Server-side location sent to the backend as `documents` once uploaded */
+  url: string;
+  /** ID assigned by the backend upload endpoint */
+  serverId?: string;
+  /** Hex SHA-256 of the file bytes; identifies the content across uploads */
+  contentHash?: string;
+  status: DocumentStatus;
+  progress: number;
+  error?: string;
+}
+
+/** Identifies the document an answer was drawn from, independent of upload state */
+export interface DocumentRef {
+  id: string;
+  name: string;
+}
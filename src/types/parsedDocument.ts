@@ -0,0 +1,122 @@
+/** Source formats the in-browser parsers understand */
+export type ParsedDocumentFormat = 'pdf' | 'docx' | 'txt' | 'html' | 'md' | 'rtf' | 'eml' | 'csv' | 'xlsx';
+
+/**
+ * A rectangle on a page in PDF points (1/72 inch) at 100% zoom, measured from
+ * the top-left corner of the page as displayed, i.e. after page rotation.
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLine extends BoundingBox {
+  text: string;
+}
+
+export type TextBlockKind = 'paragraph' | 'heading' | 'list-item' | 'table';
+
+/** A paragraph, heading, list item or table, in reading order. */
+export interface TextBlock {
+  kind: TextBlockKind;
+  /** As a reader sees it, including any list number; table cells are separated by tabs, rows by newlines */
+  text: string;
+  /** 1 for top-level headings; 0 for top-level list items, counting up with nesting */
+  level?: number;
+  /** Number or bullet of a list item or numbered heading, e.g. "4.2" or "(a)" */
+  marker?: string;
+  /** Cell texts of a table, row by row */
+  rows?: string[][];
+  /** Where the block sits on its page; only for fixed-layout formats such as PDF */
+  box?: BoundingBox;
+  fontSize?: number;
+  lines?: TextLine[];
+  /** Innermost section the block belongs to, if any; see DocumentSection */
+  sectionId?: string;
+}
+
+export interface ParsedPage {
+  /** 1-based */
+  number: number;
+  /** Page size in points; only for fixed-layout formats */
+  width?: number;
+  height?: number;
+  blocks: TextBlock[];
+  /** Blocks in reading order, separated by blank lines */
+  text: string;
+}
+
+/** An entry of the document's bookmarks / table of contents. */
+export interface OutlineItem {
+  title: string;
+  /** 1-based page the entry points to, when it points inside the document */
+  page?: number;
+  items: OutlineItem[];
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  /** Application that created the original document */
+  creator?: string;
+  /** Application that produced the file */
+  producer?: string;
+  /** ISO 8601 */
+  createdAt?: string;
+  /** ISO 8601 */
+  modifiedAt?: string;
+  language?: string;
+  /** Version of the format, e.g. "1.7" for PDF */
+  formatVersion?: string;
+  /** Character encoding the text was decoded from, for plain-text formats */
+  encoding?: string;
+  /**
+   * Pages as laid out for PDF; for flowing formats, the sections between
+   * explicit page breaks
+   */
+  pageCount: number;
+  wordCount: number;
+}
+
+export type SectionKind = 'clause' | 'heading' | 'definition' | 'schedule' | 'annexure';
+
+/**
+ * A numbered clause, heading, definition, schedule or annexure, found by
+ * reading the document's text rather than its formatting alone.
+ */
+export interface DocumentSection {
+  /**
+   * Derived from the section's number or title, e.g. "clause-4.2.1" or
+   * "definition-hospital", so it stays the same each time the document is parsed
+   */
+  id: string;
+  kind: SectionKind;
+  /** As numbered in the document, including the numbers of enclosing clauses, e.g. "4.2.1" or "4.2.1(a)" */
+  number?: string;
+  /** The heading, the defined term, or the first words of an untitled clause */
+  title: string;
+  /** How the section is referred to, e.g. "Section 4.2.1 – Maternity" */
+  label: string;
+  /** 1 for top-level sections */
+  level: number;
+  /** 1-based page and index of the block the section starts with */
+  page: number;
+  block: number;
+  items: DocumentSection[];
+}
+
+/** Text and structure of a document, extracted in the browser independently of the backend. */
+export interface ParsedDocument {
+  format: ParsedDocumentFormat;
+  metadata: DocumentMetadata;
+  pages: ParsedPage[];
+  outline: OutlineItem[];
+  /** Clauses, headings, definitions, schedules and annexures, nested as in the document */
+  sections: DocumentSection[];
+  /** All pages' text, separated by form feeds */
+  text: string;
+}
@@ -0,0 +1,49 @@
+import type { DocumentRef } from './document';
+
+export type QueryResultStatus = 'streaming' | 'complete' | 'cancelled' | 'failed';
+
+/**
+ * Where an answer came from. 'local' answers are quoted from the document by
+ * the in-browser search index; 'mock' answers are canned demo content, not
+ * document analysis.
+ */
+export type QueryProvenance = 'backend' | 'local' | 'mock';
+
+/** A passage of a document that supports an answer. */
+export interface Citation {
+  /** Server-side document ID, as returned by the upload endpoint */
+  documentId: string;
+  /** 1-based page number, when the document is paginated */
+  page?: number;
+  /** Clause or section number, e.g. "4.2.1" */
+  clause?: string;
+  /** How the cited section is referred to, e.g. "Section 4.2.1 – Maternity" */
+  section?: string;
+  /** Section in the browser's parsed copy of the document; only for answers found locally */
+  sectionId?: string;
+  /** Quoted text from the document */
+  snippet: string;
+  /** Retrieval relevance, 0-1 */
+  score: number;
+}
+
+export interface QueryResult {
+  question: string;
+  answer: string;
+  confidence: number;
+  sources: Citation[];
+  /** Documents the answer was drawn from; empty for demo answers */
+  documents: DocumentRef[];
+  reasoning: string;
+  timestamp: Date;
+  /**
+   * 'streaming' while a streamed answer is still arriving, 'cancelled' if the
+   * user stopped it first, 'failed' if its batch failed while others succeeded
+   */
+  status?: QueryResultStatus;
+  /** Why the answer is missing, for 'failed' results */
+  error?: string;
+  provenance: QueryProvenance;
+  /** True when served from the local answer cache instead of the backend */
+  cached?: boolean;
+}
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_ADAPTER?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_MODEL?: string;
+  readonly VITE_API_AUTH?: string;
+  readonly VITE_API_PROFILE_NAME?: string;
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_API_STREAMING?: string;
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_RETRY_MAX_ATTEMPTS?: string;
+  readonly VITE_BATCH_SIZE?: string;
+  readonly VITE_MAX_CONCURRENCY?: string;
+  readonly VITE_ANSWER_CACHE_TTL_HOURS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,89 @@
+import { parseCsv } from '@/lib/parsers/csv';
+import { parseDocx } from '@/lib/parsers/docx';
+import { parseEml } from '@/lib/parsers/eml';
+import { formatOf } from '@/lib/parsers/formats';
+import { parseHtml } from '@/lib/parsers/html';
+import { parseMarkdown } from '@/lib/parsers/markdown';
+import { parsePdf } from '@/lib/parsers/pdf';
+import { parseRtf } from '@/lib/parsers/rtf';
+import { InvalidDocumentError, type EmbeddedFile, type ParseOptions } from '@/lib/parsers/structure';
+import { parseText } from '@/lib/parsers/text';
+import { parseXlsx } from '@/lib/parsers/xlsx';
+import type { ParsedDocument, ParsedDocumentFormat } from '@/types/parsedDocument';
+
+/** Why a file could not be parsed, so the UI can say more than "failed" */
+export type ParseFailureReason = 'password' | 'invalid' | 'unsupported' | 'cancelled' | 'unknown';
+
+export type ParserRequest =
+  | { type: 'parse'; id: string; format: ParsedDocumentFormat; data: ArrayBuffer }
+  | { type: 'cancel'; id: string };
+
+export type ParserResponse =
+  | { type: 'progress'; id: string; done: number; total: number }
+  | { type: 'parsed'; id: string; document: ParsedDocument }
+  | { type: 'failed'; id: string; reason: ParseFailureReason; message: string };
+
+const parsers: Record<ParsedDocumentFormat, (data: ArrayBuffer, options: ParseOptions) => Promise<ParsedDocument>> = {
+  pdf: parsePdf,
+  docx: parseDocx,
+  txt: parseText,
+  html: parseHtml,
+  md: parseMarkdown,
+  rtf: parseRtf,
+  eml: parseEml,
+  csv: parseCsv,
+  xlsx: parseXlsx,
+};
+
+// Attachments are parsed in full but report no progress of their own
+async function parseEmbedded(file: EmbeddedFile, signal: AbortSignal): Promise<ParsedDocument | undefined> {
+  const format = formatOf(file)?.format;
+  return format ? parsers[format](file.data, { signal, parseEmbedded: embedded => parseEmbedded(embedded, signal) }) : undefined;
+}
+
+const controllers = new Map<string, AbortController>();
+
+const respond = (response: ParserResponse) => self.postMessage(response);
+
+function toFailure(error: unknown, signal: AbortSignal): { reason: ParseFailureReason; message: string } {
+  const message = error instanceof Error ? error.message : String(error);
+  if (signal.aborted) return { reason: 'cancelled', message: 'Parsing was cancelled' };
+
+  // PDF.js errors cross its message port as plain objects, so they are told apart by name
+  const name = (error as { name?: string })?.name;
+  if (name === 'PasswordException') return { reason: 'password', message };
+  if (error instanceof InvalidDocumentError || name === 'InvalidPDFException') return { reason: 'invalid', message };
+  return { reason: 'unknown', message };
+}
+
+async function parse({ id, format, data }: Extract<ParserRequest, { type: 'parse' }>): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    if (!parsers[format]) {
+      respond({ type: 'failed', id, reason: 'unsupported', message: `No parser for ${format || 'this file type'}` });
+      return;
+    }
+
+    const document = await parsers[format](data, {
+      signal: controller.signal,
+      onProgress: (done, total) => respond({ type: 'progress', id, done, total }),
+      parseEmbedded: file => parseEmbedded(file, controller.signal),
+    });
+    respond({ type: 'parsed', id, document });
+  } catch (error) {
+    respond({ type: 'failed', id, ...toFailure(error, controller.signal) });
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ParserRequest>) => {
+  const request = event.data;
+  if (request.type === 'parse') {
+    parse(request);
+  } else {
+    controllers.get(request.id)?.abort();
+  }
+});
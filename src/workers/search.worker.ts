@@ -0,0 +1,56 @@
+import { answerQuestion, searchPassages, type LocalAnswer, type Passage } from '@/lib/retrieval/answer';
+import { Bm25Index } from '@/lib/retrieval/bm25';
+import { chunkDocument } from '@/lib/retrieval/chunk';
+import type { ParsedDocument } from '@/types/parsedDocument';
+
+export type SearchRequest =
+  | { type: 'index'; id: string; documentId: string; document: ParsedDocument }
+  | { type: 'remove'; id: string; documentId: string }
+  | { type: 'search'; id: string; documentId: string; query: string; limit?: number }
+  | { type: 'answer'; id: string; documentId: string; question: string };
+
+export interface SearchResults {
+  index: { chunks: number };
+  remove: { removed: boolean };
+  search: Passage[];
+  answer: LocalAnswer;
+}
+
+export type SearchResponse =
+  | { type: 'result'; id: string; result: SearchResults[keyof SearchResults] }
+  | { type: 'failed'; id: string; message: string };
+
+const indexes = new Map<string, Bm25Index>();
+
+const respond = (response: SearchResponse) => self.postMessage(response);
+
+function getIndex(documentId: string): Bm25Index {
+  const index = indexes.get(documentId);
+  if (!index) throw new Error(`Document ${documentId} is not indexed`);
+  return index;
+}
+
+function handle(request: SearchRequest): SearchResults[keyof SearchResults] {
+  switch (request.type) {
+    case 'index': {
+      const index = new Bm25Index(chunkDocument(request.document));
+      indexes.set(request.documentId, index);
+      return { chunks: index.chunks.length };
+    }
+    case 'remove':
+      return { removed: indexes.delete(request.documentId) };
+    case 'search':
+      return searchPassages(getIndex(request.documentId), request.query, request.limit);
+    case 'answer':
+      return answerQuestion(getIndex(request.documentId), request.question);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<SearchRequest>) => {
+  const { id } = event.data;
+  try {
+    respond({ type: 'result', id, result: handle(event.data) });
+  } catch (error) {
+    respond({ type: 'failed', id, message: error instanceof Error ? error.message : String(error) });
+  }
+});